@@ -0,0 +1,78 @@
+import { useMemo } from "react";
+import DartboardSegments from "./DartboardSegments";
+import { DARTBOARD_CONFIG, SVG_PROJECTION } from "../utils/dartboard/dartboardConfig";
+import { Point, projectRadius, toPixels } from "../utils/dartboard/boardGeometry";
+import { GroupingStats, binHeatmap } from "../utils/dartboard/grouping";
+
+const CELL_SIZE_MM = 6;
+
+// Yellow where darts are sparse, through orange to red where they bunch up
+const heatColor = (density: number) => `hsl(${Math.round(60 - density * 60)}, 100%, 50%)`;
+
+// Where darts landed, drawn over the board, with the group's mean point and 1σ ellipse when given
+const BoardHeatmap = ({
+  positions,
+  target,
+  grouping
+}: {
+  positions: Point[];
+  target?: Point;
+  grouping?: GroupingStats;
+}) => {
+  const cells = useMemo(() => binHeatmap(positions, CELL_SIZE_MM), [positions]);
+  const cellSize = projectRadius(CELL_SIZE_MM, SVG_PROJECTION);
+  const targetPixels = target && toPixels(target, SVG_PROJECTION);
+  const meanPixels = grouping && toPixels(grouping.meanPoint, SVG_PROJECTION);
+
+  return (
+    <svg
+      viewBox={`0 0 ${DARTBOARD_CONFIG.SVG_SIZE} ${DARTBOARD_CONFIG.SVG_SIZE}`}
+      className="max-w-full max-h-[70vh] mx-auto"
+    >
+      <g opacity={0.45}>
+        <DartboardSegments />
+      </g>
+
+      {cells.map(cell => {
+        const { x, y } = toPixels(cell, SVG_PROJECTION);
+        return (
+          <rect
+            key={`${cell.x}:${cell.y}`}
+            x={x - cellSize / 2}
+            y={y - cellSize / 2}
+            width={cellSize}
+            height={cellSize}
+            fill={heatColor(cell.density)}
+            opacity={0.15 + cell.density * 0.7}
+          />
+        );
+      })}
+
+      {targetPixels && (
+        <g stroke="#fff" strokeWidth={1}>
+          <line x1={targetPixels.x - 6} y1={targetPixels.y} x2={targetPixels.x + 6} y2={targetPixels.y} />
+          <line x1={targetPixels.x} y1={targetPixels.y - 6} x2={targetPixels.x} y2={targetPixels.y + 6} />
+        </g>
+      )}
+
+      {grouping && meanPixels && (
+        <g>
+          <ellipse
+            cx={meanPixels.x}
+            cy={meanPixels.y}
+            rx={projectRadius(grouping.spread.major, SVG_PROJECTION)}
+            ry={projectRadius(grouping.spread.minor, SVG_PROJECTION)}
+            transform={`rotate(${grouping.spread.angle} ${meanPixels.x} ${meanPixels.y})`}
+            fill="none"
+            stroke="#38bdf8"
+            strokeWidth={1.5}
+            strokeDasharray="4 2"
+          />
+          <circle cx={meanPixels.x} cy={meanPixels.y} r={3} fill="#38bdf8" stroke="#000" strokeWidth={0.5} />
+        </g>
+      )}
+    </svg>
+  );
+};
+
+export default BoardHeatmap;
@@ -1,79 +1,235 @@
 
+import { useEffect, useState } from "react";
 import { useGameStore } from "../store/gameStore";
+import { useTargetSuggestion } from "../hooks/use-target-suggestion";
 import { Card, CardContent } from "./ui/card";
+import { Button } from "./ui/button";
+import { Check, X } from "lucide-react";
+import { DartScore, MissReason, PendingDart } from "../types/game";
+import { formatDart } from "../utils/dartboard/dartLabel";
+import { MISS } from "../utils/dartboard/boardGeometry";
+
+const MISS_DESCRIPTIONS: Record<MissReason, string> = {
+  outsideBoard: "a dart outside the board",
+  bounceOut: "a bounce-out",
+};
+
+// Other scores a detection may have are offered once they're at least this likely
+const MIN_ALTERNATIVE_PROBABILITY = 0.05;
+const MAX_ALTERNATIVES = 2;
 
 const CurrentTurn = () => {
-  const { currentTurn, dartsRemaining, getCurrentPlayer, gameFinished } = useGameStore();
+  const { 
+    currentTurn, 
+    dartsRemaining, 
+    pendingDarts,
+    confirmPendingDart,
+    rejectPendingDart,
+    registerDart,
+    getCurrentPlayer, 
+    gameFinished,
+    currentTurnBust,
+    turnAdvanceDueAt,
+    cancelTurnAdvance,
+    endTurn
+  } = useGameStore();
+  const targetSuggestion = useTargetSuggestion();
   
   const currentPlayer = getCurrentPlayer();
   if (!currentPlayer || gameFinished) return null;
   
   const dartSlots = [0, 1, 2]; // 3 darts per turn
-  const dartThrown = 3 - dartsRemaining;
+  // Counted from the turn itself: a turn can end with darts still in hand (a checkout, a Killer claim)
+  const dartThrown = currentTurn.length;
   
   // Calculate turn total
   const turnTotal = currentTurn.reduce((sum, dart) => sum + dart.points, 0);
   
-  // Check for potential bust
-  const potentialBust = currentPlayer.score - turnTotal < 2;
+  // The next dart missed: one the camera didn't catch, or one it scored that bounced out
+  const scoreMiss = () => {
+    if (pendingDarts.length > 0) {
+      confirmPendingDart(pendingDarts[0].id, MISS);
+    } else {
+      registerDart(MISS);
+    }
+  };
   
   return (
-    <Card className={`mt-4 ${potentialBust && currentTurn.length > 0 ? "border-red-500" : ""}`}>
+    <Card className={`mt-4 ${currentTurnBust ? "border-red-500" : ""}`}>
       <CardContent className="p-3">
         <div className="flex justify-between items-center mb-2">
           <div className="text-sm font-medium">Current Turn</div>
-          <div className="text-xs text-muted-foreground">
-            {currentPlayer.name}'s throw
+          <div className="flex items-center gap-2">
+            <div className="text-xs text-muted-foreground">
+              {currentPlayer.name}'s throw
+            </div>
+            {dartsRemaining > 0 && !currentTurnBust && (
+              <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={scoreMiss} title="Score the next dart as a miss">
+                Miss
+              </Button>
+            )}
           </div>
         </div>
         
         <div className="flex justify-between items-center">
           <div className="flex gap-2">
-            {dartSlots.map((slot) => (
-              <div 
-                key={slot}
-                className={`w-12 h-12 border rounded-md flex items-center justify-center font-mono ${
-                  slot < dartThrown 
-                    ? "bg-muted" 
-                    : "border-dashed border-muted"
-                }`}
-              >
-                {slot < dartThrown && (
-                  <DartDisplay dart={currentTurn[slot]} />
-                )}
-              </div>
-            ))}
+            {dartSlots.map((slot) => {
+              const pendingDart = pendingDarts[slot - dartThrown];
+              // The suggested route fills the darts still to throw, until a detection is waiting
+              const suggestedDart = !pendingDarts.length && targetSuggestion?.darts[slot - dartThrown];
+              
+              return (
+                <div 
+                  key={slot}
+                  className={`w-12 h-12 border rounded-md flex flex-col items-center justify-center font-mono ${
+                    slot < dartThrown 
+                      ? "bg-muted" 
+                      : pendingDart
+                        ? "border-yellow-500 bg-yellow-500/10"
+                        : "border-dashed border-muted"
+                  }`}
+                >
+                  {slot < dartThrown && (
+                    <DartDisplay dart={currentTurn[slot]} />
+                  )}
+                  {slot >= dartThrown && pendingDart && (
+                    <>
+                      <DartDisplay dart={pendingDart.dart} />
+                      <span className="text-[10px] text-yellow-500">
+                        {Math.round(pendingDart.confidence * 100)}%
+                      </span>
+                    </>
+                  )}
+                  {slot >= dartThrown && suggestedDart && (
+                    <span className="text-sm text-muted-foreground" title="Suggested">{suggestedDart}</span>
+                  )}
+                </div>
+              );
+            })}
           </div>
           
-          <div className={`text-xl font-bold ${potentialBust && currentTurn.length > 0 ? "text-red-500" : ""}`}>
+          <div className={`text-xl font-bold ${currentTurnBust ? "text-red-500" : ""}`}>
             {turnTotal}
-            {potentialBust && currentTurn.length > 0 && (
-              <div className="text-xs font-normal text-red-500 mt-1">Potential bust!</div>
+            {currentTurnBust && (
+              <div className="text-xs font-normal text-red-500 mt-1">Bust!</div>
             )}
           </div>
         </div>
+        
+        {turnAdvanceDueAt && (
+          <TurnAdvanceCountdown dueAt={turnAdvanceDueAt} onCancel={cancelTurnAdvance} onAdvance={endTurn} />
+        )}
+        
+        {pendingDarts.length > 0 && (
+          <PendingDartReview 
+            pendingDart={pendingDarts[0]}
+            onConfirm={() => confirmPendingDart(pendingDarts[0].id)}
+            onCorrect={dart => confirmPendingDart(pendingDarts[0].id, dart)}
+            onReject={() => rejectPendingDart(pendingDarts[0].id)}
+          />
+        )}
       </CardContent>
     </Card>
   );
 };
 
-// Component to display a dart score
-const DartDisplay = ({ dart }: { dart: { segment: number; multiplier: number; points: number } }) => {
-  let display = "";
+// Review controls for the oldest camera detection awaiting confirmation, with the next likeliest scores a click away
+const PendingDartReview = ({ 
+  pendingDart, 
+  onConfirm, 
+  onCorrect,
+  onReject 
+}: { 
+  pendingDart: PendingDart; 
+  onConfirm: () => void; 
+  onCorrect: (dart: DartScore) => void;
+  onReject: () => void 
+}) => {
+  const alternatives = (pendingDart.candidates ?? [])
+    .slice(1)
+    .filter(candidate => candidate.probability >= MIN_ALTERNATIVE_PROBABILITY)
+    .slice(0, MAX_ALTERNATIVES);
   
-  if (dart.segment === 25) {
-    display = dart.multiplier === 2 ? "BULL" : "25";
-  } else {
-    if (dart.multiplier === 3) {
-      display = `T${dart.segment}`;
-    } else if (dart.multiplier === 2) {
-      display = `D${dart.segment}`;
-    } else {
-      display = `${dart.segment}`;
-    }
-  }
+  return (
+    <div className="mt-3 flex items-center justify-between gap-2 rounded-md border border-yellow-500/50 p-2">
+      <div className="text-xs text-muted-foreground">
+        {pendingDart.unconfirmed ? (
+          <>Camera saw movement but no dart. Was it {MISS_DESCRIPTIONS[pendingDart.miss]}?</>
+        ) : (
+          <>
+            Camera saw {pendingDart.miss ? MISS_DESCRIPTIONS[pendingDart.miss] : <DartDisplay dart={pendingDart.dart} />}{" "}
+            ({Math.round(pendingDart.confidence * 100)}%).
+          </>
+        )}{" "}
+        Confirm, reject, or click the board to correct.
+        {alternatives.length > 0 && (
+          <div className="mt-1 flex items-center gap-1">
+            Or:
+            {alternatives.map(({ dart, probability }) => (
+              <Button 
+                key={`${dart.segment}x${dart.multiplier}`} 
+                size="sm" 
+                variant="outline" 
+                className="h-6 px-2 text-xs" 
+                onClick={() => onCorrect(dart)}
+              >
+                {dart.segment === MISS.segment ? "Miss" : formatDart(dart)} {Math.round(probability * 100)}%
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex gap-1">
+        <Button size="icon" variant="outline" className="h-7 w-7" onClick={onConfirm} title="Confirm dart">
+          <Check size={14} />
+        </Button>
+        <Button size="icon" variant="outline" className="h-7 w-7" onClick={onReject} title="Reject dart">
+          <X size={14} />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Seconds until the finished turn passes on, with a way to hold it or go straight away
+const TurnAdvanceCountdown = ({ 
+  dueAt, 
+  onCancel, 
+  onAdvance 
+}: { 
+  dueAt: number; 
+  onCancel: () => void; 
+  onAdvance: () => void 
+}) => {
+  const [now, setNow] = useState(Date.now());
   
-  return <span className="text-sm font-bold">{display}</span>;
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+  
+  const secondsLeft = Math.max(0, Math.ceil((dueAt - now) / 1000));
+  
+  return (
+    <div className="mt-3 flex items-center justify-between gap-2 rounded-md border border-primary/50 p-2">
+      <div className="text-xs text-muted-foreground">
+        Next player in <span className="font-mono font-bold text-foreground">{secondsLeft}s</span>
+      </div>
+      <div className="flex gap-1">
+        <Button size="sm" variant="outline" className="h-7" onClick={onCancel}>
+          Wait
+        </Button>
+        <Button size="sm" className="h-7" onClick={onAdvance}>
+          Next now
+        </Button>
+      </div>
+    </div>
+  );
 };
 
+// Component to display a dart score
+const DartDisplay = ({ dart }: { dart: DartScore }) => (
+  <span className="text-sm font-bold">{formatDart(dart)}</span>
+);
+
 export default CurrentTurn;
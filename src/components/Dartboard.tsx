@@ -1,22 +1,20 @@
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useRef, useCallback } from "react";
 import { useGameStore } from "../store/gameStore";
-import { generateSegments } from "../utils/dartboard/segmentUtils";
+import DartboardSegments from "./DartboardSegments";
 import { calculateScore } from "../utils/dartboard/scoreCalculator";
 import { generateHitMarks } from "../utils/dartboard/hitMarkUtils";
-import { DARTBOARD_CONFIG } from "../utils/dartboard/dartboardConfig";
+import { DARTBOARD_CONFIG, SVG_PROJECTION } from "../utils/dartboard/dartboardConfig";
+import { toPixels } from "../utils/dartboard/boardGeometry";
 
 const Dartboard = () => {
-  const { registerDart, currentTurn, dartsRemaining } = useGameStore();
+  const { registerDart, confirmPendingDart, pendingDarts, dartsRemaining, currentTurn } = useGameStore();
   const boardRef = useRef<SVGSVGElement>(null);
-  const [hitMarks, setHitMarks] = useState<{ x: number; y: number; dartIndex: number }[]>([]);
 
-  // Clear hit marks when a new turn starts
-  useEffect(() => {
-    if (dartsRemaining === 3) {
-      setHitMarks([]);
-    }
-  }, [dartsRemaining]);
+  // Mark where this turn's darts landed, clicked or seen by the camera
+  const hitMarks = currentTurn.flatMap((dart, dartIndex) =>
+    dart.position ? [{ ...toPixels(dart.position, SVG_PROJECTION), dartIndex }] : []
+  );
 
   const handleBoardClick = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
     if (!boardRef.current || dartsRemaining === 0) return;
@@ -39,19 +37,17 @@ const Dartboard = () => {
     const distance = Math.sqrt(dx * dx + dy * dy);
     
     if (distance <= DARTBOARD_CONFIG.OUTER_BORDER_RADIUS) {
-      const dartIndex = 3 - dartsRemaining;
-      
-      setHitMarks(prev => [
-        ...prev, 
-        { x: viewBoxX, y: viewBoxY, dartIndex }
-      ]);
-      
       const dartScore = calculateScore(viewBoxX, viewBoxY);
-      registerDart(dartScore);
+      
+      // A click while a camera detection awaits review corrects that dart
+      if (pendingDarts.length > 0) {
+        confirmPendingDart(pendingDarts[0].id, dartScore);
+      } else {
+        registerDart(dartScore);
+      }
     }
-  }, [calculateScore, registerDart, dartsRemaining]);
+  }, [registerDart, confirmPendingDart, pendingDarts, dartsRemaining]);
 
-  const segments = generateSegments();
   const marks = generateHitMarks(hitMarks);
 
   return (
@@ -62,18 +58,7 @@ const Dartboard = () => {
         className="max-w-full max-h-[80vh] cursor-crosshair touch-action-none"
         onClick={handleBoardClick}
       >
-        {segments.map((segment, idx) => {
-          switch (segment.type) {
-            case 'circle':
-              return <circle key={`segment-${idx}`} {...segment.props} />;
-            case 'path':
-              return <path key={`segment-${idx}`} {...segment.props} />;
-            case 'line':
-              return <line key={`segment-${idx}`} {...segment.props} />;
-            default:
-              return null;
-          }
-        })}
+        <DartboardSegments />
         
         {marks.map((mark, idx) => (
           <g key={`hit-mark-${idx}`}>
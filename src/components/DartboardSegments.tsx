@@ -0,0 +1,21 @@
+import { generateSegments } from "../utils/dartboard/segmentUtils";
+
+// The board's beds and wires, for drawing inside an SVG with the dartboard viewBox
+const DartboardSegments = () => (
+  <>
+    {generateSegments().map((segment, idx) => {
+      switch (segment.type) {
+        case 'circle':
+          return <circle key={`segment-${idx}`} {...segment.props} />;
+        case 'path':
+          return <path key={`segment-${idx}`} {...segment.props} />;
+        case 'line':
+          return <line key={`segment-${idx}`} {...segment.props} />;
+        default:
+          return null;
+      }
+    })}
+  </>
+);
+
+export default DartboardSegments;
@@ -1,25 +1,40 @@
-import { useGameStore } from "../store/gameStore";
+import { AUTO_COMMIT_OFF, useGameStore } from "../store/gameStore";
 import { Button } from "./ui/button";
 import { Card } from "./ui/card";
-import { ArrowLeftCircle, SkipBack, SkipForward, RotateCcw } from "lucide-react";
+import { Slider } from "./ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
+import { Undo2, Redo2, RotateCcw } from "lucide-react";
 import { useToast } from "../hooks/use-toast";
+import { TurnAdvanceMode } from "../types/game";
 // import PlayerScores from "./PlayerScores";
 import CurrentTurn from "./CurrentTurn";
+import LiveScoresheet from "./LiveScoresheet";
 // import { ScoreHistory } from "./ScoreHistory";
 
 const GameControls = () => {
   const { 
     endTurn, 
-    undoLastDart,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
     resetGame,
     gameFinished,
     getCurrentPlayer,
-    dartsRemaining
+    currentTurn,
+    dartsRemaining,
+    autoCommitConfidence,
+    setAutoCommitConfidence,
+    currentTurnBust,
+    turnAdvance,
+    setTurnAdvance
   } = useGameStore();
   
   const { toast } = useToast();
   
   const currentPlayer = getCurrentPlayer();
+  // A turn can be over before its third dart: a bust, a checkout, a Killer claim
+  const turnOver = currentTurn.length > 0 && (dartsRemaining === 0 || currentTurnBust);
   
   const handleEndTurn = () => {
     endTurn();
@@ -30,11 +45,20 @@ const GameControls = () => {
     });
   };
   
-  const handleUndoLastDart = () => {
-    undoLastDart();
+  const handleUndo = () => {
+    undo();
     toast({
-      title: "Dart undone",
-      description: "Last dart removed",
+      title: "Undone",
+      description: "Last dart or turn taken back",
+      duration: 2000,
+    });
+  };
+  
+  const handleRedo = () => {
+    redo();
+    toast({
+      title: "Redone",
+      description: "Put back what was undone",
       duration: 2000,
     });
   };
@@ -56,22 +80,34 @@ const GameControls = () => {
   return (
     <Card className="p-4 shadow-md">
       <div className="flex justify-between items-center gap-2">
-        <Button
-          variant="outline"
-          size="icon"
-          onClick={handleUndoLastDart}
-          disabled={!currentPlayer || dartsRemaining === 3}
-          title="Undo Last Dart"
-        >
-          <ArrowLeftCircle size={20} />
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleUndo}
+            disabled={!canUndo()}
+            title="Undo"
+          >
+            <Undo2 size={20} />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleRedo}
+            disabled={!canRedo()}
+            title="Redo"
+          >
+            <Redo2 size={20} />
+          </Button>
+          <LiveScoresheet />
+        </div>
         
         <Button 
           variant="default"
           onClick={handleEndTurn}
-          disabled={!currentPlayer || dartsRemaining === 3 || gameFinished}
+          disabled={!currentPlayer || !currentTurn.length || gameFinished}
         >
-          {dartsRemaining === 0 ? "Next Player" : "End Turn"}
+          {turnOver ? "Next Player" : "End Turn"}
         </Button>
         
         <Button
@@ -86,6 +122,48 @@ const GameControls = () => {
       {/* <PlayerScores /> */}
       <CurrentTurn />
       {/* <ScoreHistory /> */}
+      
+      {/* Camera detections below this confidence wait for review */}
+      <div className="mt-4 flex items-center gap-3 text-xs text-muted-foreground">
+        <span className="whitespace-nowrap">Camera auto-accept</span>
+        <Slider
+          min={50}
+          max={100}
+          step={5}
+          value={[Math.round(autoCommitConfidence * 100)]}
+          onValueChange={([value]) => setAutoCommitConfidence(value / 100)}
+        />
+        <span className="w-10 text-right font-mono">
+          {autoCommitConfidence >= AUTO_COMMIT_OFF ? "Off" : `${Math.round(autoCommitConfidence * 100)}%`}
+        </span>
+      </div>
+      
+      {/* How a turn passes on once its darts are thrown or it goes bust */}
+      <div className="mt-3 flex items-center gap-3 text-xs text-muted-foreground">
+        <span className="whitespace-nowrap">Next player</span>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={turnAdvance.mode}
+          onValueChange={(mode) => mode && setTurnAdvance({ mode: mode as TurnAdvanceMode })}
+        >
+          <ToggleGroupItem value="manual" className="h-7 text-xs">Manual</ToggleGroupItem>
+          <ToggleGroupItem value="delayed" className="h-7 text-xs">After</ToggleGroupItem>
+          <ToggleGroupItem value="immediate" className="h-7 text-xs">At once</ToggleGroupItem>
+        </ToggleGroup>
+        {turnAdvance.mode === 'delayed' && (
+          <>
+            <Slider
+              min={1}
+              max={10}
+              step={1}
+              value={[turnAdvance.delaySeconds]}
+              onValueChange={([delaySeconds]) => setTurnAdvance({ delaySeconds })}
+            />
+            <span className="w-10 text-right font-mono">{turnAdvance.delaySeconds}s</span>
+          </>
+        )}
+      </div>
     </Card>
   );
 };
@@ -1,36 +1,151 @@
 
 import { useState } from 'react';
 import { useGameStore } from '../store/gameStore';
+import { useProfileStore } from '../store/profileStore';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { RadioGroup, RadioGroupItem } from './ui/radio-group';
 import { Separator } from './ui/separator';
-import { Users, User, X, Plus } from 'lucide-react';
+import { Switch } from './ui/switch';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { GameMode, TeamMember, TeamRotation } from '../types/game';
+import { PlayerProfile } from '../types/profile';
+import { GAME_RULES } from '../games';
+import { X01Options, X01Rule, X01_RULES, X01_RULE_NAMES, X01_START_SCORES } from '../games/x01';
+import { CricketOptions } from '../games/cricket';
+import { KILLER_LIVES, KillerOptions } from '../games/killer';
+import { SHANGHAI_ROUNDS, ShanghaiOptions } from '../games/shanghai';
+import {
+  HALVE_IT_CLASSIC,
+  HALVE_IT_TARGETS,
+  HalveItOptions,
+  HalveItTarget,
+  describeHalveItTarget
+} from '../games/halveIt';
+import { AroundTheClockOptions, CLOCK_VARIANTS, CLOCK_VARIANT_NAMES, ClockVariant } from '../games/aroundTheClock';
+import { DRILL_LAPS, DoublesDrillOptions } from '../games/doublesDrill';
+import { CHECKOUT_DOUBLES } from '../games/checkout';
+import {
+  CHECKOUT_DRILLS,
+  CHECKOUT_DRILL_NAMES,
+  CheckoutDrill,
+  CheckoutTrainerOptions,
+  TRAINER_ATTEMPTS,
+  TRAINER_DARTS
+} from '../games/checkoutTrainer';
+import {
+  BEST_OF_LEGS,
+  FIRST_TO_LEGS,
+  LEGS_PER_SET,
+  MATCH_FORMAT_DEFAULTS,
+  MATCH_FORMAT_NAMES,
+  MatchFormatType,
+  SETS_TO_WIN,
+  describeMatchFormat
+} from '../games/matchFormat';
+import { TEAM_ROTATIONS, TEAM_ROTATION_NAMES, isTeam, seatsOf } from '../games/teams';
+import { Link } from 'react-router-dom';
+import PlayerAvatar from './PlayerAvatar';
+import PlayerProfileDialog from './PlayerProfileDialog';
+import { Users, X, Plus, History, Pencil, ArrowUp, ArrowLeftRight } from 'lucide-react';
+
+// Toggle values are strings; numbered targets go back to numbers
+const parseHalveItTarget = (value: string): HalveItTarget =>
+  value === 'double' || value === 'treble' ? value : Number(value);
 
 const GameSetup = () => {
   const { 
     gameMode,
+    gameOptions,
     players,
-    legsToWin,
+    matchFormat,
     setGameMode,
-    setLegsToWin,
+    setGameOptions,
+    setMatchFormat,
     addPlayer,
+    syncPlayerProfile,
     removePlayer,
     resetPlayers,
+    teamRotation,
+    setTeamPlay,
+    moveTeamMember,
+    setTeamRotation,
     startGame
   } = useGameStore();
   
+  const { profiles, getProfile } = useProfileStore();
+  
   const [newPlayerName, setNewPlayerName] = useState('');
+  const [profileDialogOpen, setProfileDialogOpen] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<PlayerProfile | undefined>();
+  
+  const minPlayers = GAME_RULES[gameMode].minPlayers ?? 1;
+  const matchGames = Object.values(GAME_RULES).filter(rules => !rules.practice);
+  const practiceGames = Object.values(GAME_RULES).filter(rules => rules.practice);
+  
+  const teamPlay = players.some(isTeam);
+  const playerCount = players.flatMap(player => player.members ?? [player]).length;
+  const teamsReady = players.every(player => !player.members || player.members.length > 0);
+  
+  // Saved players who aren't in this game yet
+  const availableProfiles = profiles.filter(profile => 
+    !players.flatMap(seatsOf).some(seat => seat.profileId === profile.id)
+  );
 
+  // A typed name joins with the matching profile, or opens a new profile for it
   const handleAddPlayer = () => {
-    if (newPlayerName.trim()) {
-      addPlayer(newPlayerName.trim());
+    const name = newPlayerName.trim();
+    if (!name) return;
+    
+    const existing = profiles.find(profile => profile.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      addPlayer(existing);
+      setNewPlayerName('');
+      return;
+    }
+    
+    openProfileDialog();
+  };
+  
+  const openProfileDialog = (profile?: PlayerProfile) => {
+    setEditingProfile(profile);
+    setProfileDialogOpen(true);
+  };
+  
+  const handleProfileSaved = (profile: PlayerProfile) => {
+    if (editingProfile) {
+      syncPlayerProfile(profile);
+    } else {
+      addPlayer(profile);
       setNewPlayerName('');
     }
   };
 
+  // Count rows shown for the selected format: [label, values, current value, apply]
+  const formatCounts: [string, number[], number, (count: number) => void][] = 
+    matchFormat.type === 'sets'
+      ? [
+          ['Sets', SETS_TO_WIN, matchFormat.sets, sets => setMatchFormat({ ...matchFormat, sets })],
+          ['Legs', LEGS_PER_SET, matchFormat.legsPerSet, legsPerSet => setMatchFormat({ ...matchFormat, legsPerSet })],
+        ]
+      : [
+          [
+            'Legs', 
+            matchFormat.type === 'bestOf' ? BEST_OF_LEGS : FIRST_TO_LEGS, 
+            matchFormat.legs, 
+            legs => setMatchFormat({ ...matchFormat, legs })
+          ],
+        ];
+
+  // Checkout trainer count rows, as above
+  const trainerOptions = gameOptions as CheckoutTrainerOptions;
+  const trainerCounts: [string, number[], number, (count: number) => void][] = [
+    ['Darts', TRAINER_DARTS, trainerOptions.darts, darts => setGameOptions({ darts })],
+    ['Tries', TRAINER_ATTEMPTS, trainerOptions.attempts, attempts => setGameOptions({ attempts })],
+  ];
+
   const handlePlayerKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleAddPlayer();
@@ -51,39 +166,283 @@ const GameSetup = () => {
             <Label htmlFor="gameMode" className="text-lg font-medium">Game Mode</Label>
             <RadioGroup 
               id="gameMode" 
-              value={gameMode.toString()}
-              onValueChange={(value) => setGameMode(parseInt(value) as 301 | 501)}
-              className="flex justify-center gap-4"
+              value={gameMode}
+              onValueChange={(value) => setGameMode(value as GameMode)}
+              className="space-y-2"
             >
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="301" id="r301" />
-                <Label htmlFor="r301" className="cursor-pointer">301</Label>
+              {/* Match games first, then the practice drills */}
+              {[matchGames, practiceGames].map((games, row) => (
+                <div key={row} className="flex flex-wrap justify-center gap-4">
+                  {row > 0 && <span className="text-sm text-muted-foreground">Practice:</span>}
+                  {games.map(rules => (
+                    <div key={rules.id} className="flex items-center space-x-2">
+                      <RadioGroupItem value={rules.id} id={`mode-${rules.id}`} />
+                      <Label htmlFor={`mode-${rules.id}`} className="cursor-pointer">{rules.name}</Label>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </RadioGroup>
+            
+            {gameMode === 'x01' && (
+              <div className="space-y-3 pt-2">
+                <RadioGroup 
+                  value={(gameOptions as X01Options).startScore.toString()}
+                  onValueChange={(value) => setGameOptions({ startScore: parseInt(value) })}
+                  className="flex justify-center gap-4"
+                >
+                  {X01_START_SCORES.map(score => (
+                    <div key={score} className="flex items-center space-x-2">
+                      <RadioGroupItem value={score.toString()} id={`r${score}`} />
+                      <Label htmlFor={`r${score}`} className="cursor-pointer">{score}</Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+                
+                {(['inRule', 'outRule'] as const).map(option => (
+                  <div key={option} className="flex items-center justify-between gap-4">
+                    <Label className="text-sm text-muted-foreground w-12">
+                      {option === 'inRule' ? 'In' : 'Out'}
+                    </Label>
+                    <RadioGroup 
+                      value={(gameOptions as X01Options)[option]}
+                      onValueChange={(value) => setGameOptions({ [option]: value as X01Rule })}
+                      className="flex flex-1 justify-center gap-4"
+                    >
+                      {X01_RULES.map(rule => (
+                        <div key={rule} className="flex items-center space-x-2">
+                          <RadioGroupItem value={rule} id={`${option}-${rule}`} />
+                          <Label htmlFor={`${option}-${rule}`} className="cursor-pointer">{X01_RULE_NAMES[rule]}</Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </div>
+                ))}
               </div>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="501" id="r501" />
-                <Label htmlFor="r501" className="cursor-pointer">501</Label>
+            )}
+            
+            {gameMode === 'cricket' && (
+              <div className="flex items-center justify-center gap-2 pt-2">
+                <Switch 
+                  id="cutThroat" 
+                  checked={(gameOptions as CricketOptions).cutThroat} 
+                  onCheckedChange={(cutThroat) => setGameOptions({ cutThroat })} 
+                />
+                <Label htmlFor="cutThroat" className="cursor-pointer">Cut-throat</Label>
               </div>
-            </RadioGroup>
+            )}
+            
+            {gameMode === 'killer' && (
+              <div className="flex items-center justify-between gap-4 pt-2">
+                <Label className="text-sm text-muted-foreground w-12">Lives</Label>
+                <RadioGroup 
+                  value={(gameOptions as KillerOptions).lives.toString()}
+                  onValueChange={(value) => setGameOptions({ lives: parseInt(value) })}
+                  className="flex flex-1 justify-center gap-4"
+                >
+                  {KILLER_LIVES.map(lives => (
+                    <div key={lives} className="flex items-center space-x-2">
+                      <RadioGroupItem value={lives.toString()} id={`lives-${lives}`} />
+                      <Label htmlFor={`lives-${lives}`} className="cursor-pointer">{lives}</Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            )}
+            
+            {gameMode === 'shanghai' && (
+              <RadioGroup 
+                value={(gameOptions as ShanghaiOptions).rounds.toString()}
+                onValueChange={(value) => setGameOptions({ rounds: parseInt(value) })}
+                className="flex justify-center gap-4 pt-2"
+              >
+                {SHANGHAI_ROUNDS.map(rounds => (
+                  <div key={rounds} className="flex items-center space-x-2">
+                    <RadioGroupItem value={rounds.toString()} id={`rounds-${rounds}`} />
+                    <Label htmlFor={`rounds-${rounds}`} className="cursor-pointer">Rounds 1–{rounds}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            )}
+            
+            {gameMode === 'halveIt' && (
+              <div className="space-y-2 pt-2">
+                {/* Targets are played in the order they are picked */}
+                <ToggleGroup
+                  type="multiple"
+                  value={(gameOptions as HalveItOptions).targets.map(String)}
+                  onValueChange={(values) => values.length && setGameOptions({ targets: values.map(parseHalveItTarget) })}
+                  size="sm"
+                  className="grid grid-cols-7 gap-1"
+                >
+                  {HALVE_IT_TARGETS.map(target => (
+                    <ToggleGroupItem 
+                      key={target} 
+                      value={target.toString()} 
+                      className={`h-7 px-0 text-xs ${typeof target === 'string' ? 'col-span-2' : ''}`}
+                    >
+                      {describeHalveItTarget(target)}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+                <div className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>{(gameOptions as HalveItOptions).targets.map(describeHalveItTarget).join(' → ')}</span>
+                  <Button variant="ghost" size="sm" onClick={() => setGameOptions({ targets: HALVE_IT_CLASSIC })}>
+                    Classic
+                  </Button>
+                </div>
+              </div>
+            )}
+            
+            {gameMode === 'aroundTheClock' && (
+              <RadioGroup 
+                value={(gameOptions as AroundTheClockOptions).variant}
+                onValueChange={(value) => setGameOptions({ variant: value as ClockVariant })}
+                className="flex flex-wrap justify-center gap-4 pt-2"
+              >
+                {CLOCK_VARIANTS.map(variant => (
+                  <div key={variant} className="flex items-center space-x-2">
+                    <RadioGroupItem value={variant} id={`clock-${variant}`} />
+                    <Label htmlFor={`clock-${variant}`} className="cursor-pointer">{CLOCK_VARIANT_NAMES[variant]}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            )}
+            
+            {gameMode === 'bobs27' && (
+              <p className="text-sm text-center text-muted-foreground pt-2">
+                Three darts at each double, D1 to Bull. Start on 27, add each double hit, lose it when
+                all three miss. Out at zero.
+              </p>
+            )}
+            
+            {gameMode === 'doublesDrill' && (
+              <div className="space-y-3 pt-2">
+                {/* Doubles are thrown at in the order they are picked */}
+                <ToggleGroup
+                  type="multiple"
+                  value={(gameOptions as DoublesDrillOptions).doubles.map(String)}
+                  onValueChange={(values) => values.length && setGameOptions({ doubles: values.map(Number) })}
+                  size="sm"
+                  className="grid grid-cols-7 gap-1"
+                >
+                  {CHECKOUT_DOUBLES.map(segment => (
+                    <ToggleGroupItem key={segment} value={segment.toString()} className="h-7 px-0 text-xs">
+                      {segment === 25 ? 'Bull' : `D${segment}`}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+                
+                <div className="flex items-center justify-between gap-4">
+                  <Label className="text-sm text-muted-foreground w-12">Laps</Label>
+                  <RadioGroup 
+                    value={(gameOptions as DoublesDrillOptions).laps.toString()}
+                    onValueChange={(value) => setGameOptions({ laps: parseInt(value) })}
+                    className="flex flex-1 justify-center gap-4"
+                  >
+                    {DRILL_LAPS.map(laps => (
+                      <div key={laps} className="flex items-center space-x-2">
+                        <RadioGroupItem value={laps.toString()} id={`laps-${laps}`} />
+                        <Label htmlFor={`laps-${laps}`} className="cursor-pointer">{laps}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+              </div>
+            )}
+            
+            {gameMode === 'checkoutTrainer' && (
+              <div className="space-y-3 pt-2">
+                <RadioGroup 
+                  value={trainerOptions.drill}
+                  onValueChange={(value) => setGameOptions({ drill: value as CheckoutDrill })}
+                  className="flex justify-center gap-4"
+                >
+                  {CHECKOUT_DRILLS.map(drill => (
+                    <div key={drill} className="flex items-center space-x-2">
+                      <RadioGroupItem value={drill} id={`drill-${drill}`} />
+                      <Label htmlFor={`drill-${drill}`} className="cursor-pointer">{CHECKOUT_DRILL_NAMES[drill]}</Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+                
+                {trainerCounts.map(([label, values, current, apply]) => (
+                  <div key={label} className="flex items-center justify-between gap-4">
+                    <Label className="text-sm text-muted-foreground w-12">{label}</Label>
+                    <RadioGroup 
+                      value={current.toString()}
+                      onValueChange={(value) => apply(parseInt(value))}
+                      className="flex flex-1 justify-center gap-4"
+                    >
+                      {values.map(num => (
+                        <div key={num} className="flex items-center space-x-2">
+                          <RadioGroupItem value={num.toString()} id={`trainer-${label}-${num}`} />
+                          <Label htmlFor={`trainer-${label}-${num}`} className="cursor-pointer">{num}</Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </div>
+                ))}
+                
+                <div className="flex items-center justify-between gap-4">
+                  <Label className="text-sm text-muted-foreground w-12">Out</Label>
+                  <RadioGroup 
+                    value={trainerOptions.outRule}
+                    onValueChange={(value) => setGameOptions({ outRule: value as X01Rule })}
+                    className="flex flex-1 justify-center gap-4"
+                  >
+                    {X01_RULES.map(rule => (
+                      <div key={rule} className="flex items-center space-x-2">
+                        <RadioGroupItem value={rule} id={`trainer-out-${rule}`} />
+                        <Label htmlFor={`trainer-out-${rule}`} className="cursor-pointer">{X01_RULE_NAMES[rule]}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+              </div>
+            )}
           </div>
 
           <Separator />
 
-          {/* Legs to Win */}
+          {/* Match Format */}
           <div className="space-y-2">
-            <Label htmlFor="legsToWin" className="text-lg font-medium">Legs to Win</Label>
+            <Label htmlFor="matchFormat" className="text-lg font-medium">Match Format</Label>
             <RadioGroup 
-              id="legsToWin" 
-              value={legsToWin.toString()}
-              onValueChange={(value) => setLegsToWin(parseInt(value))}
-              className="flex justify-center flex-wrap gap-4"
+              id="matchFormat" 
+              value={matchFormat.type}
+              onValueChange={(value) => setMatchFormat(MATCH_FORMAT_DEFAULTS[value as MatchFormatType])}
+              className="flex justify-center gap-4"
             >
-              {[1, 3, 5, 7].map(num => (
-                <div key={num} className="flex items-center space-x-2">
-                  <RadioGroupItem value={num.toString()} id={`l${num}`} />
-                  <Label htmlFor={`l${num}`} className="cursor-pointer">{num}</Label>
+              {(Object.keys(MATCH_FORMAT_NAMES) as MatchFormatType[]).map(type => (
+                <div key={type} className="flex items-center space-x-2">
+                  <RadioGroupItem value={type} id={`format-${type}`} />
+                  <Label htmlFor={`format-${type}`} className="cursor-pointer">{MATCH_FORMAT_NAMES[type]}</Label>
                 </div>
               ))}
             </RadioGroup>
+            
+            <div className="space-y-3 pt-2">
+              {formatCounts.map(([label, values, current, apply]) => (
+                <div key={label} className="flex items-center justify-between gap-4">
+                  <Label className="text-sm text-muted-foreground w-12">{label}</Label>
+                  <RadioGroup 
+                    value={current.toString()}
+                    onValueChange={(value) => apply(parseInt(value))}
+                    className="flex flex-1 justify-center flex-wrap gap-4"
+                  >
+                    {values.map(num => (
+                      <div key={num} className="flex items-center space-x-2">
+                        <RadioGroupItem value={num.toString()} id={`${label}-${num}`} />
+                        <Label htmlFor={`${label}-${num}`} className="cursor-pointer">{num}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+              ))}
+            </div>
+            
+            <p className="text-sm text-center text-muted-foreground">{describeMatchFormat(matchFormat)}</p>
           </div>
 
           <Separator />
@@ -92,36 +451,94 @@ const GameSetup = () => {
           <div className="space-y-3">
             <div className="flex items-center justify-between">
               <Label className="text-lg font-medium">Players</Label>
-              <div className="flex items-center gap-2">
-                <Users size={18} className="text-muted-foreground" />
-                <span className="text-sm font-medium text-muted-foreground">
-                  {players.length} player{players.length !== 1 ? 's' : ''}
-                </span>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch id="teamPlay" checked={teamPlay} onCheckedChange={setTeamPlay} />
+                  <Label htmlFor="teamPlay" className="cursor-pointer text-sm">Teams</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Users size={18} className="text-muted-foreground" />
+                  <span className="text-sm font-medium text-muted-foreground">
+                    {playerCount} player{playerCount !== 1 ? 's' : ''}
+                  </span>
+                </div>
               </div>
             </div>
 
-            {/* Player List */}
-            <div className="space-y-2 max-h-40 overflow-y-auto p-1">
-              {players.map(player => (
-                <div 
+            {/* Player List; in team play, each team's players in throwing order */}
+            <div className="space-y-2 max-h-60 overflow-y-auto p-1">
+              {!teamPlay && players.map(player => (
+                <SeatRow
                   key={player.id}
-                  className="flex items-center justify-between p-2 bg-muted rounded-md"
-                >
-                  <div className="flex items-center gap-2">
-                    <User size={16} />
-                    <span>{player.name}</span>
+                  seat={player}
+                  onEdit={getProfile(player.profileId) && (() => openProfileDialog(getProfile(player.profileId)))}
+                  onRemove={() => removePlayer(player.id)}
+                />
+              ))}
+              
+              {teamPlay && players.map((team, teamIndex) => {
+                const otherTeam = players[(teamIndex + 1) % players.length];
+                
+                return (
+                  <div key={team.id} className="space-y-1">
+                    <div className="text-sm font-medium text-muted-foreground">
+                      Team {String.fromCharCode(65 + teamIndex)}
+                    </div>
+                    {team.members.map((member, position) => (
+                      <SeatRow
+                        key={member.id}
+                        seat={member}
+                        label={`${String.fromCharCode(65 + teamIndex)}${position + 1}`}
+                        onMoveUp={position > 0 && (() => moveTeamMember(member.id, team.id, position - 1))}
+                        onSwitchTeam={() => moveTeamMember(member.id, otherTeam.id, otherTeam.members.length)}
+                        onEdit={getProfile(member.profileId) && (() => openProfileDialog(getProfile(member.profileId)))}
+                        onRemove={() => removePlayer(member.id)}
+                      />
+                    ))}
+                    {!team.members.length && (
+                      <p className="text-sm text-muted-foreground p-2">Add a player to this team</p>
+                    )}
                   </div>
+                );
+              })}
+            </div>
+            
+            {/* Where each team's throwers pick up when a new leg starts */}
+            {teamPlay && (
+              <div className="flex items-center justify-between gap-4">
+                <Label className="text-sm text-muted-foreground w-12">Legs</Label>
+                <RadioGroup 
+                  value={teamRotation}
+                  onValueChange={(value) => setTeamRotation(value as TeamRotation)}
+                  className="flex flex-1 justify-center gap-4"
+                >
+                  {TEAM_ROTATIONS.map(rotation => (
+                    <div key={rotation} className="flex items-center space-x-2">
+                      <RadioGroupItem value={rotation} id={`rotation-${rotation}`} />
+                      <Label htmlFor={`rotation-${rotation}`} className="cursor-pointer">{TEAM_ROTATION_NAMES[rotation]}</Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            )}
+            
+            {/* Saved Players */}
+            {availableProfiles.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {availableProfiles.map(profile => (
                   <Button 
-                    variant="ghost" 
-                    size="icon" 
-                    className="h-7 w-7" 
-                    onClick={() => removePlayer(player.id)}
+                    key={profile.id} 
+                    variant="outline" 
+                    size="sm" 
+                    className="pl-1" 
+                    onClick={() => addPlayer(profile)}
                   >
-                    <X size={14} />
+                    <PlayerAvatar profileId={profile.id} name={profile.name} className="h-6 w-6 mr-1" />
+                    {profile.name}
                   </Button>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            )}
 
             {/* Add Player Input */}
             <div className="flex gap-2">
@@ -137,18 +554,26 @@ const GameSetup = () => {
               </Button>
             </div>
           </div>
+          
+          <PlayerProfileDialog 
+            open={profileDialogOpen} 
+            onOpenChange={setProfileDialogOpen} 
+            profile={editingProfile}
+            initialName={newPlayerName.trim()}
+            onSaved={handleProfileSaved}
+          />
         </CardContent>
         
         <CardFooter className="flex flex-col gap-2">
           <Button 
             className="w-full" 
-            disabled={players.length < 1}
+            disabled={players.length < minPlayers || !teamsReady}
             onClick={startGame}
           >
-            Start Game
+            {players.length && players.length < minPlayers ? `Needs ${minPlayers} Players` : 'Start Game'}
           </Button>
           
-          {players.length > 0 && (
+          {playerCount > 0 && (
             <Button 
               variant="outline" 
               className="w-full" 
@@ -157,10 +582,62 @@ const GameSetup = () => {
               Reset Players
             </Button>
           )}
+          
+          <Button variant="ghost" className="w-full" asChild>
+            <Link to="/history">
+              <History size={18} className="mr-2" />
+              Match History
+            </Link>
+          </Button>
         </CardFooter>
       </Card>
     </div>
   );
 };
 
+// A player in the setup list, with what can be done to them
+const SeatRow = ({
+  seat,
+  label,
+  onMoveUp,
+  onSwitchTeam,
+  onEdit,
+  onRemove
+}: {
+  seat: TeamMember;
+  label?: string; // Team play: their place in the throwing order
+  onMoveUp?: false | (() => void);
+  onSwitchTeam?: () => void;
+  onEdit?: false | (() => void);
+  onRemove: () => void;
+}) => (
+  <div className="flex items-center justify-between p-2 bg-muted rounded-md">
+    <div className="flex items-center gap-2">
+      {label && <span className="w-6 text-xs font-mono text-muted-foreground">{label}</span>}
+      <PlayerAvatar profileId={seat.profileId} name={seat.name} />
+      <span>{seat.name}</span>
+    </div>
+    <div className="flex items-center">
+      {onMoveUp && (
+        <Button variant="ghost" size="icon" className="h-7 w-7" title="Throw earlier" onClick={onMoveUp}>
+          <ArrowUp size={14} />
+        </Button>
+      )}
+      {onSwitchTeam && (
+        <Button variant="ghost" size="icon" className="h-7 w-7" title="Switch team" onClick={onSwitchTeam}>
+          <ArrowLeftRight size={14} />
+        </Button>
+      )}
+      {onEdit && (
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onEdit}>
+          <Pencil size={14} />
+        </Button>
+      )}
+      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onRemove}>
+        <X size={14} />
+      </Button>
+    </div>
+  </div>
+);
+
 export default GameSetup;
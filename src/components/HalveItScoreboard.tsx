@@ -0,0 +1,62 @@
+import { Card, CardContent } from "./ui/card";
+import { PlayerState } from "../types/game";
+import { HalveItOptions, describeHalveItTarget } from "../games/halveIt";
+
+// Points per target for each player; a halved round shows as ½
+const HalveItScoreboard = ({ 
+  players, 
+  currentPlayerIndex,
+  options
+}: { 
+  players: PlayerState[]; 
+  currentPlayerIndex: number;
+  options: HalveItOptions;
+}) => {
+  const currentRound = players[currentPlayerIndex].history.length;
+  
+  return (
+    <Card>
+      <CardContent className="p-3 max-h-72 overflow-y-auto">
+        <table className="w-full text-center font-mono">
+          <thead>
+            <tr className="text-xs text-muted-foreground">
+              <th className="text-left font-normal">Target</th>
+              {players.map((player, index) => (
+                <th 
+                  key={player.id} 
+                  className={`font-medium truncate ${index === currentPlayerIndex ? "text-primary" : ""}`}
+                >
+                  {player.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {options.targets.map((target, round) => (
+              <tr key={round} className={round === currentRound ? "bg-primary/10" : ""}>
+                <td className="text-left font-bold">{describeHalveItTarget(target)}</td>
+                {players.map(player => {
+                  const turn = player.history[round];
+                  
+                  return (
+                    <td key={player.id} className={turn?.halved ? "text-red-500" : ""}>
+                      {turn ? (turn.halved ? "½" : turn.score) : ""}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr className="border-t font-bold">
+              <td className="text-left">Total</td>
+              {players.map(player => (
+                <td key={player.id}>{player.score}</td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HalveItScoreboard;
@@ -0,0 +1,53 @@
+import { Card, CardContent } from "./ui/card";
+import { PlayerState } from "../types/game";
+import { isEliminated } from "../games/killer";
+import { Heart, Skull } from "lucide-react";
+
+// Each player's number, lives left, and whether they have become a killer
+const KillerScoreboard = ({ 
+  players, 
+  currentPlayerIndex 
+}: { 
+  players: PlayerState[]; 
+  currentPlayerIndex: number 
+}) => (
+  <Card>
+    <CardContent className="p-3">
+      <table className="w-full text-center">
+        <thead>
+          <tr className="text-xs text-muted-foreground">
+            <th className="text-left font-normal">Player</th>
+            <th className="font-normal">Number</th>
+            <th className="font-normal">Lives</th>
+            <th className="font-normal">Killer</th>
+          </tr>
+        </thead>
+        <tbody>
+          {players.map((player, index) => (
+            <tr 
+              key={player.id} 
+              className={`${isEliminated(player) ? "text-muted-foreground line-through" : ""} ${
+                index === currentPlayerIndex ? "text-primary" : ""
+              }`}
+            >
+              <td className="text-left font-medium truncate">{player.name}</td>
+              <td className="font-mono font-bold">{player.killerNumber ?? "–"}</td>
+              <td>
+                <div className="flex justify-center gap-0.5">
+                  {Array.from({ length: Math.max(0, player.score) }, (_, i) => (
+                    <Heart key={i} size={14} className="fill-red-500 text-red-500" />
+                  ))}
+                </div>
+              </td>
+              <td>
+                {player.isKiller && <Skull size={16} className="inline text-primary" />}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </CardContent>
+  </Card>
+);
+
+export default KillerScoreboard;
@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { useGameStore } from "../store/gameStore";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import MatchScoresheet, { ScoresheetLeg } from "./MatchScoresheet";
+import { getGameRules } from "../games";
+import { ClipboardList } from "lucide-react";
+
+// The running match's scoresheet, where any finished turn can be corrected
+const LiveScoresheet = () => {
+  const [open, setOpen] = useState(false);
+  const {
+    players,
+    gameMode,
+    matchFormat,
+    completedSets,
+    completedLegs,
+    legStarterIndex,
+    nextLegStarterIndex,
+    gameFinished,
+    correctDart,
+    correctTurnTotal
+  } = useGameStore();
+
+  // The leg being played goes after the finished ones, so its index matches the store's refs
+  const legs: ScoresheetLeg[] = [...completedLegs];
+  if (!gameFinished && nextLegStarterIndex === undefined) {
+    legs.push({
+      setNumber: completedSets.length + 1,
+      legNumber: players.reduce((sum, player) => sum + player.legsWon, 0) + 1,
+      starterId: players[legStarterIndex]?.id,
+      turns: Object.fromEntries(players.map(player => [player.id, player.history])),
+    });
+  }
+
+  // A typed total only means something where turns count down from a score
+  const scoresTotals = getGameRules(gameMode).scoreKind === 'remaining';
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <Button variant="outline" size="icon" onClick={() => setOpen(true)} title="Scoresheet">
+        <ClipboardList size={20} />
+      </Button>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scoresheet</DialogTitle>
+          <DialogDescription>Tap a dart or a turn total to correct it.</DialogDescription>
+        </DialogHeader>
+        <MatchScoresheet
+          players={players}
+          legs={legs}
+          playsSets={matchFormat.type === 'sets'}
+          editing={{
+            onEditDart: correctDart,
+            onEditTotal: scoresTotals ? correctTurnTotal : undefined,
+          }}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LiveScoresheet;
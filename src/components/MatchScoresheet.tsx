@@ -0,0 +1,292 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
+import { DartScore, LegRecord, Turn } from "../types/game";
+import { DartRef } from "../store/matchLog";
+import { formatDart } from "../utils/dartboard/dartLabel";
+import { createDartScore } from "../utils/dartboard/scoreCalculator";
+import { SEGMENT_ORDER } from "../utils/dartboard/boardGeometry";
+import { Trophy } from "lucide-react";
+
+// A leg on the sheet; the leg in progress has no winner yet
+export type ScoresheetLeg = Pick<LegRecord, 'setNumber' | 'legNumber' | 'starterId' | 'turns'> & {
+  winnerId?: number;
+};
+
+type TurnRef = Omit<DartRef, 'dartIndex'>;
+
+// legIndex in the refs is the leg's position in `legs`
+type ScoresheetEditing = {
+  onEditDart: (ref: DartRef, dart: DartScore) => void;
+  onEditTotal?: (ref: TurnRef, total: number) => void; // Only where turns have a points total
+};
+
+// Turn-by-turn record of every leg in a match, optionally with darts and totals open to correction
+const MatchScoresheet = ({
+  players,
+  legs,
+  playsSets,
+  editing
+}: {
+  players: { id: number; name: string }[];
+  legs: ScoresheetLeg[];
+  playsSets: boolean;
+  editing?: ScoresheetEditing;
+}) => {
+  if (!legs.length) {
+    return (
+      <p className="text-center text-sm text-muted-foreground">
+        No scoresheet was recorded for this match.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {legs.map((leg, legIndex) => (
+        <LegScoresheet
+          key={legIndex}
+          leg={leg}
+          legIndex={legIndex}
+          players={players}
+          playsSets={playsSets}
+          editing={editing}
+        />
+      ))}
+    </div>
+  );
+};
+
+const LegScoresheet = ({
+  leg,
+  legIndex,
+  players,
+  playsSets,
+  editing
+}: {
+  leg: ScoresheetLeg;
+  legIndex: number;
+  players: { id: number; name: string }[];
+  playsSets: boolean;
+  editing?: ScoresheetEditing;
+}) => {
+  const rounds = Math.max(0, ...players.map(player => leg.turns[player.id]?.length ?? 0));
+  const winner = players.find(player => player.id === leg.winnerId);
+
+  return (
+    <Card>
+      <CardHeader className="py-3">
+        <CardTitle className="text-base flex justify-between items-center">
+          <span>{playsSets ? `Set ${leg.setNumber} · ` : ''}Leg {leg.legNumber}</span>
+          {winner && (
+            <span className="flex items-center gap-1 text-sm font-normal text-muted-foreground">
+              <Trophy size={14} className="text-yellow-500" />
+              {winner.name}
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">#</TableHead>
+              {players.map(player => (
+                <TableHead key={player.id}>
+                  {player.name}
+                  {player.id === leg.starterId && <span className="ml-1 text-primary" title="Threw first">•</span>}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {Array.from({ length: rounds }, (_, round) => (
+              <TableRow key={round}>
+                <TableCell className="text-muted-foreground">{round + 1}</TableCell>
+                {players.map(player => {
+                  const turn = leg.turns[player.id]?.[round];
+
+                  return (
+                    <TableCell key={player.id}>
+                      {turn && (
+                        <TurnCell
+                          turn={turn}
+                          turnRef={{ legIndex, playerId: player.id, turnIndex: round }}
+                          editing={editing}
+                        />
+                      )}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+const TurnCell = ({
+  turn,
+  turnRef,
+  editing
+}: {
+  turn: Turn;
+  turnRef: TurnRef;
+  editing?: ScoresheetEditing;
+}) => {
+  const scoreClass = turn.bust ? "text-destructive line-through" : "font-medium";
+
+  return (
+    <div className="space-y-0.5">
+      <div className="flex gap-1 font-mono text-xs text-muted-foreground">
+        {turn.darts.map((dart, dartIndex) => editing ? (
+          <DartEditor
+            key={dartIndex}
+            dart={dart}
+            onSave={(corrected) => editing.onEditDart({ ...turnRef, dartIndex }, corrected)}
+          />
+        ) : (
+          <span key={dartIndex}>{formatDart(dart)}</span>
+        ))}
+      </div>
+      <div>
+        {editing?.onEditTotal && turn.darts.length ? (
+          <TotalEditor
+            total={turn.score}
+            className={scoreClass}
+            onSave={(total) => editing.onEditTotal(turnRef, total)}
+          />
+        ) : (
+          <span className={scoreClass}>{turn.score}</span>
+        )}
+        <span className="ml-2 text-xs font-normal text-muted-foreground">
+          {turn.remainingScore}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+const MISS_SEGMENT = 0;
+const BULL_SEGMENT = 25;
+const SEGMENT_CHOICES = [MISS_SEGMENT, ...[...SEGMENT_ORDER].sort((a, b) => a - b), BULL_SEGMENT];
+
+// Pick the segment and ring a dart really hit
+const DartEditor = ({ dart, onSave }: { dart: DartScore; onSave: (dart: DartScore) => void }) => {
+  const [open, setOpen] = useState(false);
+  const [segment, setSegment] = useState(dart.segment);
+  const [multiplier, setMultiplier] = useState<1 | 2 | 3>(dart.multiplier);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setSegment(dart.segment);
+      setMultiplier(dart.multiplier);
+    }
+    setOpen(nextOpen);
+  };
+
+  // The bull has no treble ring
+  const picked = createDartScore(segment, segment === BULL_SEGMENT && multiplier === 3 ? 2 : multiplier);
+
+  const handleSave = () => {
+    onSave(picked);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button type="button" className="rounded px-0.5 hover:bg-accent hover:text-accent-foreground">
+          {formatDart(dart)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3">
+        <div className="grid grid-cols-6 gap-1">
+          {SEGMENT_CHOICES.map(choice => (
+            <Button
+              key={choice}
+              size="sm"
+              variant={choice === segment ? "default" : "outline"}
+              className="h-7 px-0 text-xs"
+              onClick={() => setSegment(choice)}
+            >
+              {choice === MISS_SEGMENT ? "Miss" : choice === BULL_SEGMENT ? "Bull" : choice}
+            </Button>
+          ))}
+        </div>
+        <ToggleGroup
+          type="single"
+          value={multiplier.toString()}
+          onValueChange={(value) => value && setMultiplier(Number(value) as 1 | 2 | 3)}
+          disabled={segment === MISS_SEGMENT}
+        >
+          <ToggleGroupItem value="1">Single</ToggleGroupItem>
+          <ToggleGroupItem value="2">Double</ToggleGroupItem>
+          <ToggleGroupItem value="3" disabled={segment === BULL_SEGMENT}>Treble</ToggleGroupItem>
+        </ToggleGroup>
+        <Button size="sm" className="w-full" onClick={handleSave}>
+          Save {formatDart(picked)}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+// Overwrite a turn's points with a typed-in total
+const TotalEditor = ({
+  total,
+  className,
+  onSave
+}: {
+  total: number;
+  className: string;
+  onSave: (total: number) => void;
+}) => {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState('');
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) setValue(total.toString());
+    setOpen(nextOpen);
+  };
+
+  const parsed = parseInt(value);
+  const valid = !isNaN(parsed) && parsed >= 0 && parsed <= 180;
+
+  const handleSave = () => {
+    if (!valid) return;
+    onSave(parsed);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button type="button" className={`rounded px-0.5 hover:bg-accent ${className}`}>
+          {total}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-48 space-y-2">
+        <Input
+          type="number"
+          min={0}
+          max={180}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+        />
+        <Button size="sm" className="w-full" disabled={!valid} onClick={handleSave}>
+          Set turn total
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default MatchScoresheet;
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import PlayerStatsTable from "./PlayerStatsTable";
+import { GameMode, GameOptions, LegRecord, TeamMember } from "../types/game";
+import { X01Options } from "../games/x01";
+import { computePlayerStats } from "../games/stats";
+import { seatsOf } from "../games/teams";
+
+const WHOLE_MATCH = 'match';
+
+// Each player's numbers for the whole match, or for one leg of it. A team is followed by each of its members.
+const MatchStats = ({
+  gameMode,
+  gameOptions,
+  players,
+  legs,
+  playsSets
+}: {
+  gameMode: GameMode;
+  gameOptions: GameOptions;
+  players: { id: number; name: string; members?: TeamMember[] }[];
+  legs: LegRecord[];
+  playsSets: boolean;
+}) => {
+  const [scope, setScope] = useState(WHOLE_MATCH);
+  const options = gameMode === 'x01' ? gameOptions as X01Options : undefined;
+  const scopedLegs = scope === WHOLE_MATCH ? legs : [legs[Number(scope)]].filter(Boolean);
+
+  return (
+    <div className="space-y-2">
+      {legs.length > 1 && (
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={WHOLE_MATCH}>Whole match</SelectItem>
+            {legs.map((leg, index) => (
+              <SelectItem key={index} value={index.toString()}>
+                {playsSets ? `Set ${leg.setNumber} · ` : ''}Leg {leg.legNumber}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <PlayerStatsTable
+        gameMode={gameMode}
+        columns={players.flatMap(seatsOf).map(player => ({
+          key: player.id,
+          label: player.name,
+          stats: computePlayerStats(scopedLegs, player.id, options),
+        }))}
+      />
+    </div>
+  );
+};
+
+export default MatchStats;
@@ -0,0 +1,33 @@
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import { useProfileStore } from "../store/profileStore";
+import { cn } from "@/lib/utils";
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
+// Profile picture, or initials on the profile colour
+const PlayerAvatar = ({ 
+  profileId, 
+  name, 
+  className 
+}: { 
+  profileId?: string; 
+  name: string; 
+  className?: string 
+}) => {
+  const profile = useProfileStore(state => state.getProfile(profileId));
+  
+  return (
+    <Avatar className={cn("h-7 w-7 text-xs", className)}>
+      {profile?.avatar && <AvatarImage src={profile.avatar} alt={name} />}
+      <AvatarFallback 
+        className="font-bold text-white" 
+        style={profile ? { backgroundColor: profile.color } : undefined}
+      >
+        {initials(name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+};
+
+export default PlayerAvatar;
@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import { Switch } from "./ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
+import { AVATAR_COLORS, useProfileStore } from "../store/profileStore";
+import { useGameStore } from "../store/gameStore";
+import { GAME_RULES } from "../games";
+import { CHECKOUT_DOUBLES, DEFAULT_CHECKOUT_PREFERENCES } from "../games/checkout";
+import { GameMode } from "../types/game";
+import { PlayerProfile, ThrowingHand } from "../types/profile";
+import { ImagePlus, Trash2 } from "lucide-react";
+
+const AVATAR_SIZE = 96;
+const NO_PREFERENCE = 'none';
+
+// Shrink a picked image to a small square data URL, so profiles stay light in local storage
+const readAvatar = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = AVATAR_SIZE;
+      canvas.height = AVATAR_SIZE;
+
+      // Crop the centre square
+      const side = Math.min(image.width, image.height);
+      canvas.getContext("2d")?.drawImage(
+        image,
+        (image.width - side) / 2,
+        (image.height - side) / 2,
+        side,
+        side,
+        0,
+        0,
+        AVATAR_SIZE,
+        AVATAR_SIZE
+      );
+
+      URL.revokeObjectURL(image.src);
+      resolve(canvas.toDataURL("image/jpeg", 0.85));
+    };
+    image.onerror = reject;
+    image.src = URL.createObjectURL(file);
+  });
+
+// Create a profile, or edit the one given
+const PlayerProfileDialog = ({
+  open,
+  onOpenChange,
+  profile,
+  initialName = '',
+  onSaved
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profile?: PlayerProfile;
+  initialName?: string;
+  onSaved?: (profile: PlayerProfile) => void;
+}) => {
+  const { createProfile, updateProfile, profiles } = useProfileStore();
+  const { gameMode, gameOptions } = useGameStore();
+
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(AVATAR_COLORS[0]);
+  const [avatar, setAvatar] = useState<string | undefined>();
+  const [throwingHand, setThrowingHand] = useState<ThrowingHand>('right');
+  const [preferredMode, setPreferredMode] = useState<string>(NO_PREFERENCE);
+  const [preferredDoubles, setPreferredDoubles] = useState<string[]>([]);
+  const [avoidBull, setAvoidBull] = useState(false);
+
+  // Start from the profile being edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    setName(profile?.name ?? initialName);
+    setColor(profile?.color ?? AVATAR_COLORS[profiles.length % AVATAR_COLORS.length]);
+    setAvatar(profile?.avatar);
+    setThrowingHand(profile?.throwingHand ?? 'right');
+    setPreferredMode(profile?.preferredRules?.gameMode ?? NO_PREFERENCE);
+
+    const checkout = profile?.checkoutPreferences ?? DEFAULT_CHECKOUT_PREFERENCES;
+    setPreferredDoubles(checkout.preferredDoubles.map(String));
+    setAvoidBull(checkout.avoidBull);
+  }, [open, profile, initialName, profiles.length]);
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setAvatar(await readAvatar(file));
+  };
+
+  const handleSave = () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) return;
+
+    // Options come from the current setup when it is the preferred game, otherwise the ruleset defaults
+    const mode = preferredMode === NO_PREFERENCE ? undefined : preferredMode as GameMode;
+    const preferredRules = mode && {
+      gameMode: mode,
+      gameOptions: mode === gameMode ? gameOptions : GAME_RULES[mode].defaultOptions,
+    };
+
+    const checkoutPreferences = { preferredDoubles: preferredDoubles.map(Number), avoidBull };
+
+    const changes = { name: trimmedName, color, avatar, throwingHand, preferredRules, checkoutPreferences };
+
+    if (profile) {
+      updateProfile(profile.id, changes);
+      onSaved?.({ ...profile, ...changes });
+    } else {
+      onSaved?.(createProfile(changes));
+    }
+
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{profile ? "Edit Player" : "New Player"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="profileName">Name</Label>
+            <Input id="profileName" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          {/* Avatar */}
+          <div className="space-y-2">
+            <Label>Avatar</Label>
+            <div className="flex items-center gap-3">
+              {avatar ? (
+                <img src={avatar} alt={name} className="h-12 w-12 rounded-full object-cover" />
+              ) : (
+                <div
+                  className="h-12 w-12 rounded-full flex items-center justify-center font-bold text-white"
+                  style={{ backgroundColor: color }}
+                >
+                  {name.trim().slice(0, 1).toUpperCase()}
+                </div>
+              )}
+              <div className="flex flex-wrap gap-1.5">
+                {AVATAR_COLORS.map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    className={`h-6 w-6 rounded-full border-2 ${option === color ? "border-foreground" : "border-transparent"}`}
+                    style={{ backgroundColor: option }}
+                    onClick={() => setColor(option)}
+                    title="Avatar colour"
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <label className="cursor-pointer">
+                  <ImagePlus size={16} className="mr-2" />
+                  Picture
+                  <input type="file" accept="image/*" className="hidden" onChange={handleAvatarChange} />
+                </label>
+              </Button>
+              {avatar && (
+                <Button variant="ghost" size="sm" onClick={() => setAvatar(undefined)}>
+                  <Trash2 size={16} className="mr-2" />
+                  Remove
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {/* Throwing hand */}
+          <div className="space-y-2">
+            <Label>Throwing Hand</Label>
+            <RadioGroup
+              value={throwingHand}
+              onValueChange={(value) => setThrowingHand(value as ThrowingHand)}
+              className="flex gap-4"
+            >
+              {(['right', 'left'] as const).map(hand => (
+                <div key={hand} className="flex items-center space-x-2">
+                  <RadioGroupItem value={hand} id={`hand-${hand}`} />
+                  <Label htmlFor={`hand-${hand}`} className="cursor-pointer capitalize">{hand}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          {/* Preferred game */}
+          <div className="space-y-2">
+            <Label>Preferred Game</Label>
+            <RadioGroup value={preferredMode} onValueChange={setPreferredMode} className="flex flex-wrap gap-4">
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value={NO_PREFERENCE} id="preferred-none" />
+                <Label htmlFor="preferred-none" className="cursor-pointer">None</Label>
+              </div>
+              {Object.values(GAME_RULES).map(rules => (
+                <div key={rules.id} className="flex items-center space-x-2">
+                  <RadioGroupItem value={rules.id} id={`preferred-${rules.id}`} />
+                  <Label htmlFor={`preferred-${rules.id}`} className="cursor-pointer">{rules.name}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          {/* Checkout preferences; doubles rank in the order they are picked */}
+          <div className="space-y-2">
+            <Label>Favourite Doubles</Label>
+            <ToggleGroup
+              type="multiple"
+              value={preferredDoubles}
+              onValueChange={setPreferredDoubles}
+              size="sm"
+              className="grid grid-cols-7 gap-1"
+            >
+              {CHECKOUT_DOUBLES.map(segment => (
+                <ToggleGroupItem key={segment} value={segment.toString()} className="h-7 px-0 text-xs">
+                  {segment === 25 ? "Bull" : `D${segment}`}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <div className="flex items-center gap-2 pt-1">
+              <Switch id="avoidBull" checked={avoidBull} onCheckedChange={setAvoidBull} />
+              <Label htmlFor="avoidBull" className="cursor-pointer">Avoid the bull</Label>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={!name.trim()}>
+            {profile ? "Save" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PlayerProfileDialog;
@@ -1,25 +1,37 @@
 
-import { useMemo } from "react";
+import { Fragment } from "react";
 import { useGameStore } from "../store/gameStore";
+import { useTargetSuggestion } from "../hooks/use-target-suggestion";
 import { Card, CardContent } from "./ui/card";
-import { CHECKOUT_SUGGESTIONS } from "../types/game";
+import { CRICKET_TARGETS, PlayerState } from "../types/game";
+import { isTargetClosed } from "../games/cricket";
+import { getGameRules } from "../games";
+import { currentThrower } from "../games/teams";
+import { describeMatchFormat, legsToWinSet, setsToWinMatch } from "../games/matchFormat";
+import { ShanghaiOptions } from "../games/shanghai";
+import { HalveItOptions } from "../games/halveIt";
+import PlayerAvatar from "./PlayerAvatar";
+import KillerScoreboard from "./KillerScoreboard";
+import ShanghaiScoreboard from "./ShanghaiScoreboard";
+import HalveItScoreboard from "./HalveItScoreboard";
 import { Target } from "lucide-react";
 
 const PlayerScores = () => {
-  const { players, gameMode, legsToWin, currentPlayerIndex, gameFinished } = useGameStore();
+  const { 
+    players, 
+    gameMode, 
+    gameOptions, 
+    matchFormat, 
+    completedSets, 
+    currentPlayerIndex 
+  } = useGameStore();
+  const rules = getGameRules(gameMode);
+  const countsDown = rules.scoreKind === 'remaining';
+  const playsSets = matchFormat.type === 'sets';
+  const legsToWin = legsToWinSet(matchFormat);
   
-  // Get checkout suggestions for current player
-  const checkoutSuggestion = useMemo(() => {
-    if (!players.length || gameFinished) return null;
-    
-    const currentPlayer = players[currentPlayerIndex];
-    const score = currentPlayer.score;
-    
-    // Only show suggestion if score is in checkout range (≤170)
-    if (score > 170 || score <= 1) return null;
-    
-    return CHECKOUT_SUGGESTIONS[score]?.[0];
-  }, [players, currentPlayerIndex, gameFinished]);
+  // Get target suggestions for current player, for the darts left in the turn
+  const targetSuggestion = useTargetSuggestion();
   
   if (!players.length) return null;
   
@@ -27,21 +39,44 @@ const PlayerScores = () => {
     <div className="space-y-4">
       <div className="text-center mb-2">
         <div className="text-sm text-muted-foreground">
-          Leg {players.reduce((sum, p) => sum + p.legsWon, 0) + 1} / {legsToWin * players.length}
+          {playsSets && <>Set {completedSets.length + 1} · </>}
+          Leg {players.reduce((sum, p) => sum + p.legsWon, 0) + 1} · {describeMatchFormat(matchFormat)}
         </div>
         <h2 className="text-xl font-bold flex items-center justify-center gap-2">
           <Target size={20} className="text-primary" />
-          <span>{gameMode === 301 ? "301" : "501"}</span>
+          <span>{rules.getLabel(gameOptions)}</span>
         </h2>
       </div>
       
-      {/* Display checkout suggestion if available */}
-      {checkoutSuggestion && (
+      {/* Game-specific scoreboards */}
+      {players[0].marks && (
+        <CricketScoreboard players={players} currentPlayerIndex={currentPlayerIndex} />
+      )}
+      {gameMode === 'killer' && (
+        <KillerScoreboard players={players} currentPlayerIndex={currentPlayerIndex} />
+      )}
+      {gameMode === 'shanghai' && (
+        <ShanghaiScoreboard 
+          players={players} 
+          currentPlayerIndex={currentPlayerIndex} 
+          options={gameOptions as ShanghaiOptions} 
+        />
+      )}
+      {gameMode === 'halveIt' && (
+        <HalveItScoreboard 
+          players={players} 
+          currentPlayerIndex={currentPlayerIndex} 
+          options={gameOptions as HalveItOptions} 
+        />
+      )}
+      
+      {/* Display target suggestion if available */}
+      {targetSuggestion && (
         <Card className="bg-green-900 border-green-700 mb-4 animate-scale">
           <CardContent className="p-3 text-center">
-            <div className="text-xs text-green-300 uppercase font-bold mb-1">Checkout Suggestion</div>
+            <div className="text-xs text-green-300 uppercase font-bold mb-1">{targetSuggestion.title}</div>
             <div className="font-mono text-sm md:text-base font-bold text-white">
-              {checkoutSuggestion.darts.join(' → ')}
+              {targetSuggestion.darts.join(' → ')}
             </div>
           </CardContent>
         </Card>
@@ -51,6 +86,7 @@ const PlayerScores = () => {
       <div className="grid gap-3">
         {players.map((player, index) => {
           const isCurrentPlayer = index === currentPlayerIndex;
+          const thrower = currentThrower(player);
           
           return (
             <Card 
@@ -69,18 +105,45 @@ const PlayerScores = () => {
                         isCurrentPlayer ? "bg-primary animate-pulse" : "bg-muted"
                       }`}
                     />
-                    <span className="font-medium">{player.name}</span>
+                    <PlayerAvatar 
+                      profileId={(thrower ?? player).profileId} 
+                      name={(thrower ?? player).name} 
+                      className="h-6 w-6" 
+                    />
+                    {/* A team names its members, the one up next highlighted */}
+                    <span className="font-medium">
+                      {player.members 
+                        ? player.members.map((member, i) => (
+                            <Fragment key={member.id}>
+                              {i > 0 && <span className="text-muted-foreground"> & </span>}
+                              <span className={member === thrower ? "text-primary" : "text-muted-foreground"}>
+                                {member.name}
+                              </span>
+                            </Fragment>
+                          ))
+                        : player.name}
+                    </span>
                   </div>
                   
                   <div className="flex items-center gap-3">
+                    {playsSets && (
+                      <div className="text-xs text-muted-foreground">
+                        Sets: {player.setsWon}/{setsToWinMatch(matchFormat)}
+                      </div>
+                    )}
                     <div className="text-xs text-muted-foreground">
                       Legs: {player.legsWon}/{legsToWin}
                     </div>
-                    <div className={`text-lg md:text-xl font-bold ${
-                      player.score <= 100 ? "text-primary" : ""
-                    }`}>
-                      {player.score}
-                    </div>
+                    {rules.describeScore ? (
+                      <div className="text-lg md:text-xl font-bold">{rules.describeScore(player, gameOptions)}</div>
+                    ) : (
+                      <div className={`text-lg md:text-xl font-bold ${
+                        countsDown && player.score <= 100 ? "text-primary" : ""
+                      }`}>
+                        {player.score}
+                        {!countsDown && <span className="ml-1 text-xs font-normal text-muted-foreground">pts</span>}
+                      </div>
+                    )}
                   </div>
                 </div>
                 
@@ -95,7 +158,7 @@ const PlayerScores = () => {
                       {player.history.slice(-3).map((turn, i) => (
                         <span 
                           key={i}
-                          className={`${turn.bust ? "line-through text-red-500" : ""} ${
+                          className={`${turn.bust || turn.halved ? "line-through text-red-500" : ""} ${
                             turn.score > 100 ? "text-primary" : ""
                           }`}
                         >
@@ -114,4 +177,52 @@ const PlayerScores = () => {
   );
 };
 
+// Cricket marks: one slash, a cross, then a circled cross once the number is closed
+const MARK_SYMBOLS = ["", "/", "X", "Ⓧ"];
+
+const CricketScoreboard = ({ 
+  players, 
+  currentPlayerIndex 
+}: { 
+  players: PlayerState[]; 
+  currentPlayerIndex: number 
+}) => (
+  <Card>
+    <CardContent className="p-3">
+      <table className="w-full text-center font-mono">
+        <thead>
+          <tr className="text-xs text-muted-foreground">
+            <th className="text-left font-normal"></th>
+            {players.map((player, index) => (
+              <th 
+                key={player.id} 
+                className={`font-medium truncate ${index === currentPlayerIndex ? "text-primary" : ""}`}
+              >
+                {player.name}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {CRICKET_TARGETS.map(target => {
+            // Numbers closed by everyone are dead
+            const dead = players.every(player => isTargetClosed(player, target));
+            
+            return (
+              <tr key={target} className={dead ? "text-muted-foreground line-through" : ""}>
+                <td className="text-left font-bold">{target === 25 ? "Bull" : target}</td>
+                {players.map(player => (
+                  <td key={player.id} className="text-lg">
+                    {MARK_SYMBOLS[player.marks?.[target] ?? 0]}
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </CardContent>
+  </Card>
+);
+
 export default PlayerScores;
@@ -0,0 +1,172 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { GameMode } from "../types/game";
+import { getGameRules } from "../games";
+import {
+  AttemptCount,
+  FINISH_BRACKETS,
+  PlayerStats,
+  SCORE_BANDS,
+  describeFinishBracket,
+  hitRate,
+  threeDartAverage,
+  totalDoubles,
+  totalFinishAttempts
+} from "../games/stats";
+
+type StatRow = {
+  label: string;
+  value: (stats: PlayerStats) => string | number;
+};
+
+const formatAverage = (value: number) => value.toFixed(2);
+
+// "25% (3/12)"
+const formatAttempts = (count: AttemptCount) => `${Math.round(hitRate(count))}% (${count.hits}/${count.attempts})`;
+
+// "4 × 15 darts, 1 × 18 darts": how quickly the legs were won
+const formatLegsWon = ({ legsWonInDarts }: PlayerStats) => {
+  if (!legsWonInDarts.length) return "–";
+
+  const counts = legsWonInDarts.reduce<Record<number, number>>(
+    (counts, darts) => ({ ...counts, [darts]: (counts[darts] ?? 0) + 1 }),
+    {}
+  );
+
+  return Object.entries(counts)
+    .map(([darts, count]) => `${count} × ${darts}`)
+    .join(", ");
+};
+
+// Most-tried doubles first, as hits/attempts
+const formatDoubles = ({ doubles }: PlayerStats) => {
+  const entries = Object.entries(doubles).sort(([, a], [, b]) => b.attempts - a.attempts);
+  if (!entries.length) return "–";
+
+  return entries.map(([label, count]) => `${label} ${count.hits}/${count.attempts}`).join(", ");
+};
+
+const X01_ROWS: StatRow[] = [
+  { label: "Legs won", value: stats => `${stats.legsWon}/${stats.legsPlayed}` },
+  { label: "3-dart average", value: stats => formatAverage(threeDartAverage(stats.pointsScored, stats.dartsThrown)) },
+  { label: "First 9 average", value: stats => formatAverage(threeDartAverage(stats.firstNinePoints, stats.firstNineDarts)) },
+  { label: "Checkout %", value: stats => formatAttempts(stats.checkouts) },
+  { label: "Highest checkout", value: stats => stats.highestCheckout || "–" },
+  ...SCORE_BANDS.map(band => ({
+    label: band === 180 ? "180s" : `${band}+`,
+    value: (stats: PlayerStats) => stats.scoreBands[band],
+  })),
+  { label: "Best turn", value: stats => stats.bestTurn },
+  { label: "Legs won in (darts)", value: formatLegsWon },
+  { label: "Doubles", value: formatDoubles },
+  { label: "Darts thrown", value: stats => stats.dartsThrown },
+];
+
+// "1:42", or "1:02:05" for an hour or more
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const clock = `${minutes % 60}:${(seconds % 60).toString().padStart(2, "0")}`;
+
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}:${clock.padStart(5, "0")}` : clock;
+};
+
+const fewest = (values: number[]) => (values.length ? Math.min(...values) : undefined);
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+
+const POINTS_ROWS: StatRow[] = [
+  { label: "Legs won", value: stats => `${stats.legsWon}/${stats.legsPlayed}` },
+  { label: "Marks/Round", value: stats => (stats.turns ? (stats.marks / stats.turns).toFixed(2) : "0.00") },
+  { label: "Darts thrown", value: stats => stats.dartsThrown },
+];
+
+// Practice games are about getting round quickly, in darts and in time
+const PRACTICE_ROWS: StatRow[] = [
+  { label: "Legs won", value: stats => `${stats.legsWon}/${stats.legsPlayed}` },
+  { label: "Fewest darts", value: stats => fewest(stats.legsWonInDarts) ?? "–" },
+  { label: "Average darts", value: stats => mean(stats.legsWonInDarts)?.toFixed(1) ?? "–" },
+  { label: "Fastest time", value: stats => stats.legsWonInTime.length ? formatDuration(fewest(stats.legsWonInTime)) : "–" },
+  { label: "Average time", value: stats => stats.legsWonInTime.length ? formatDuration(mean(stats.legsWonInTime)) : "–" },
+  { label: "Darts thrown", value: stats => stats.dartsThrown },
+];
+
+const LEGS_WON_ROW: StatRow = { label: "Legs won", value: stats => `${stats.legsWon}/${stats.legsPlayed}` };
+const DARTS_THROWN_ROW: StatRow = { label: "Darts thrown", value: stats => stats.dartsThrown };
+
+// Games played over a set number of rounds: the scores the legs ended on
+const LEG_SCORE_ROWS: StatRow[] = [
+  { label: "Best score", value: stats => stats.legScores.length ? Math.max(...stats.legScores) : "–" },
+  { label: "Average score", value: stats => mean(stats.legScores)?.toFixed(1) ?? "–" },
+];
+
+// Doubles practice: how often each double goes in, and the scores the legs ended on
+const DOUBLES_ROWS: StatRow[] = [
+  LEGS_WON_ROW,
+  ...LEG_SCORE_ROWS,
+  { label: "Doubles hit %", value: stats => formatAttempts(totalDoubles(stats)) },
+  { label: "Doubles", value: formatDoubles },
+  { label: "Darts thrown", value: stats => stats.dartsThrown },
+];
+
+// Checkout practice: finishes made overall and from each bracket of starting scores
+const CHECKOUT_PRACTICE_ROWS: StatRow[] = [
+  { label: "Legs won", value: stats => `${stats.legsWon}/${stats.legsPlayed}` },
+  { label: "Finishes", value: stats => formatAttempts(totalFinishAttempts(stats)) },
+  ...FINISH_BRACKETS.map(bracket => ({
+    label: `From ${describeFinishBracket(bracket)}`,
+    value: (stats: PlayerStats) => stats.finishAttempts[bracket].attempts ? formatAttempts(stats.finishAttempts[bracket]) : "–",
+  })),
+  { label: "Darts thrown", value: stats => stats.dartsThrown },
+];
+
+const STAT_ROWS: Partial<Record<GameMode, StatRow[]>> = {
+  x01: X01_ROWS,
+  killer: [LEGS_WON_ROW, DARTS_THROWN_ROW],
+  shanghai: [LEGS_WON_ROW, ...LEG_SCORE_ROWS, DARTS_THROWN_ROW],
+  halveIt: [LEGS_WON_ROW, ...LEG_SCORE_ROWS, DARTS_THROWN_ROW],
+  bobs27: DOUBLES_ROWS,
+  doublesDrill: DOUBLES_ROWS,
+  checkoutTrainer: CHECKOUT_PRACTICE_ROWS,
+};
+
+const statRows = (gameMode: GameMode) =>
+  STAT_ROWS[gameMode] ?? (getGameRules(gameMode).practice ? PRACTICE_ROWS : POINTS_ROWS);
+
+// Stats side by side, one column per player (or per leg, or per profile)
+const PlayerStatsTable = ({
+  gameMode,
+  columns
+}: {
+  gameMode: GameMode;
+  columns: { key: string | number; label: string; stats: PlayerStats }[];
+}) => {
+  const rows = statRows(gameMode);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead />
+          {columns.map(column => (
+            <TableHead key={column.key} className="text-right">{column.label}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => (
+          <TableRow key={row.label}>
+            <TableCell className="text-muted-foreground">{row.label}</TableCell>
+            {columns.map(column => (
+              <TableCell key={column.key} className="text-right font-medium">
+                {row.value(column.stats)}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default PlayerStatsTable;
@@ -0,0 +1,67 @@
+import { formatDistanceToNow } from "date-fns";
+import { useGameStore } from "../store/gameStore";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "./ui/card";
+import { getGameRules } from "../games";
+import { describeMatchFormat } from "../games/matchFormat";
+import { Play, RotateCcw } from "lucide-react";
+
+// Shown after a reload when the last match was left unfinished
+const ResumeMatch = () => {
+  const {
+    players,
+    gameMode,
+    gameOptions,
+    matchFormat,
+    currentPlayerIndex,
+    startedAt,
+    resumeMatch,
+    resetGame
+  } = useGameStore();
+  const playsSets = matchFormat.type === 'sets';
+
+  return (
+    <div className="flex justify-center items-center min-h-screen p-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-center">Match in Progress</CardTitle>
+          <CardDescription className="text-center">
+            {getGameRules(gameMode).getLabel(gameOptions)} · {describeMatchFormat(matchFormat)}
+            {startedAt && <> · started {formatDistanceToNow(startedAt, { addSuffix: true })}</>}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-2">
+          {players.map((player, index) => (
+            <div
+              key={player.id}
+              className={`flex justify-between items-center p-2 rounded-md ${
+                index === currentPlayerIndex ? "bg-primary/10" : "bg-secondary"
+              }`}
+            >
+              <span className="font-medium">{player.name}</span>
+              <div className="flex items-center gap-3 text-sm">
+                {playsSets && <span className="text-muted-foreground">Sets: {player.setsWon}</span>}
+                <span className="text-muted-foreground">Legs: {player.legsWon}</span>
+                <span className="font-bold">{player.score}</span>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+
+        <CardFooter className="flex gap-3 justify-center">
+          <Button variant="outline" onClick={resetGame}>
+            <RotateCcw size={18} className="mr-2" />
+            New Game
+          </Button>
+          <Button onClick={resumeMatch}>
+            <Play size={18} className="mr-2" />
+            Resume Match
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default ResumeMatch;
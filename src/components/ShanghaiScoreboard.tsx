@@ -0,0 +1,56 @@
+import { Card, CardContent } from "./ui/card";
+import { PlayerState } from "../types/game";
+import { ShanghaiOptions, shanghaiRound } from "../games/shanghai";
+
+// Points per round for each player, with the round in play picked out
+const ShanghaiScoreboard = ({ 
+  players, 
+  currentPlayerIndex,
+  options
+}: { 
+  players: PlayerState[]; 
+  currentPlayerIndex: number;
+  options: ShanghaiOptions;
+}) => {
+  const currentRound = shanghaiRound(players[currentPlayerIndex]);
+  
+  return (
+    <Card>
+      <CardContent className="p-3 max-h-72 overflow-y-auto">
+        <table className="w-full text-center font-mono">
+          <thead>
+            <tr className="text-xs text-muted-foreground">
+              <th className="text-left font-normal">Round</th>
+              {players.map((player, index) => (
+                <th 
+                  key={player.id} 
+                  className={`font-medium truncate ${index === currentPlayerIndex ? "text-primary" : ""}`}
+                >
+                  {player.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {Array.from({ length: options.rounds }, (_, i) => i + 1).map(round => (
+              <tr key={round} className={round === currentRound ? "bg-primary/10" : ""}>
+                <td className="text-left font-bold">{round}</td>
+                {players.map(player => (
+                  <td key={player.id}>{player.history[round - 1]?.score ?? ""}</td>
+                ))}
+              </tr>
+            ))}
+            <tr className="border-t font-bold">
+              <td className="text-left">Total</td>
+              {players.map(player => (
+                <td key={player.id}>{player.score}</td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ShanghaiScoreboard;
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { DartScore, MatchEvent, PlayerState } from '../types/game';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+import { MatchSetup, applyMatchEvent, createMatchProgress } from '../store/matchLog';
+import { AroundTheClockOptions, ClockVariant } from './aroundTheClock';
+
+const S = (segment: number) => createDartScore(segment, 1);
+const D = (segment: number) => createDartScore(segment, 2);
+const T = (segment: number) => createDartScore(segment, 3);
+const MISS = createDartScore(0, 1);
+
+const setupFor = (variant: ClockVariant): MatchSetup => ({
+  gameMode: 'aroundTheClock',
+  gameOptions: { variant } as AroundTheClockOptions,
+  matchFormat: { type: 'firstTo', legs: 1 },
+  teamRotation: 'carryOn',
+});
+
+const player = (id: number, name: string): PlayerState => ({
+  id,
+  name,
+  score: 0,
+  initialScore: 0,
+  dartsThrown: 0,
+  legsWon: 0,
+  setsWon: 0,
+  currentTurn: false,
+  history: [],
+});
+
+// Each turn is thrown in full and then passed on
+const play = (variant: ClockVariant, turns: DartScore[][]) => {
+  const setup = setupFor(variant);
+  const events = turns.flatMap((darts, i): MatchEvent[] => [
+    ...darts.map((dart): MatchEvent => ({ type: 'dart', dart, at: 0 })),
+    ...(i < turns.length - 1 ? [{ type: 'endTurn', at: 0 } as MatchEvent] : []),
+  ]);
+
+  return events.reduce(
+    (progress, event) => applyMatchEvent(setup, progress, event),
+    createMatchProgress(setup, [player(1, 'A'), player(2, 'B')])
+  );
+};
+
+describe('around the clock', () => {
+  it('moves on one number for any hit on the number in play', () => {
+    const { players } = play('any', [[S(1), T(2), S(4)]]);
+
+    expect(players[0].score).toBe(2);
+  });
+
+  it('only counts the ring the variant asks for', () => {
+    expect(play('doubles', [[S(1), T(1), D(1)]]).players[0].score).toBe(1);
+    expect(play('singles', [[D(1), T(1), MISS]]).players[0].score).toBe(0);
+  });
+
+  it('skips ahead on doubles and trebles', () => {
+    expect(play('skip', [[D(1), T(3), S(6)]]).players[0].score).toBe(6);
+  });
+
+  it('records the numbers moved on in a turn', () => {
+    const { players } = play('skip', [[T(1), T(4), MISS], [MISS, MISS, MISS], []]);
+
+    expect(players[0].history[0]).toMatchObject({ score: 6, remainingScore: 6, bust: false });
+    expect(players[1].history[0]).toMatchObject({ score: 0, remainingScore: 0 });
+  });
+
+  it('stops a skip at the bull, which has to be hit to win', () => {
+    const misses = [MISS, MISS, MISS];
+    const { players, completedLegs, gameFinished } = play('skip', [
+      [T(1), T(4), T(7)], misses,
+      [T(10), T(13), T(16)], misses,
+      [T(19), S(25)],
+    ]);
+
+    expect(players[0].score).toBe(21);
+    expect(completedLegs).toHaveLength(1);
+    expect(completedLegs[0].winnerId).toBe(1);
+    expect(gameFinished).toBe(true);
+  });
+
+  it('needs the bull itself once every number is done', () => {
+    const misses = [MISS, MISS, MISS];
+    const { players, completedLegs } = play('skip', [
+      [T(1), T(4), T(7)], misses,
+      [T(10), T(13), T(16)], misses,
+      [T(19), MISS, MISS],
+    ]);
+
+    expect(players[0].score).toBe(20);
+    expect(completedLegs).toHaveLength(0);
+  });
+});
@@ -0,0 +1,103 @@
+import { DartScore, PlayerState } from '../types/game';
+import { GameRules, RulesContext } from '../types/rules';
+import { formatDart } from '../utils/dartboard/dartLabel';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+import { updatePlayer, wonMatchFormat } from './shared';
+
+// Which darts count for the number in play. 'skip' takes any dart, and doubles and trebles move on two or three numbers.
+export type ClockVariant = 'any' | 'singles' | 'doubles' | 'trebles' | 'skip';
+
+export type AroundTheClockOptions = {
+  variant: ClockVariant;
+};
+
+// 1 to 20, then the bull. A player's score is how many of these they have hit.
+export const CLOCK_TARGETS = [...Array.from({ length: 20 }, (_, i) => i + 1), 25];
+
+const BULL_INDEX = CLOCK_TARGETS.length - 1;
+
+export const CLOCK_VARIANTS: ClockVariant[] = ['any', 'singles', 'doubles', 'trebles', 'skip'];
+
+export const CLOCK_VARIANT_NAMES: Record<ClockVariant, string> = {
+  any: 'Any',
+  singles: 'Singles',
+  doubles: 'Doubles',
+  trebles: 'Trebles',
+  skip: 'Skip on Double/Treble',
+};
+
+// The dart to aim at for a number; the bull has no treble, so trebles play the bullseye
+const aimFor = (variant: ClockVariant, target: number) => {
+  const multipliers: Record<ClockVariant, 1 | 2 | 3> = { any: 1, singles: 1, doubles: 2, trebles: 3, skip: 3 };
+  const multiplier = target === 25 ? Math.min(2, multipliers[variant]) as 1 | 2 : multipliers[variant];
+
+  return createDartScore(target, multiplier);
+};
+
+// Numbers a dart moves the player on from the one in play
+export const clockAdvance = (variant: ClockVariant, dart: DartScore, target: number) => {
+  if (dart.segment !== target) return 0;
+
+  switch (variant) {
+    case 'singles':
+      return dart.multiplier === 1 ? 1 : 0;
+    case 'doubles':
+      return dart.multiplier === 2 ? 1 : 0;
+    case 'trebles':
+      return dart.multiplier === aimFor(variant, target).multiplier ? 1 : 0;
+    case 'skip':
+      return dart.multiplier;
+    default:
+      return 1;
+  }
+};
+
+export const hasFinishedClock = (player: PlayerState) => player.score >= CLOCK_TARGETS.length;
+
+const applyDart = ({ players, playerIndex, options }: RulesContext<AroundTheClockOptions>, dart: DartScore) => {
+  const player = players[playerIndex];
+  if (hasFinishedClock(player)) return { players, bust: false };
+
+  const advance = clockAdvance(options.variant, dart, CLOCK_TARGETS[player.score]);
+  if (!advance) return { players, bust: false };
+
+  // Skipping ahead stops at the bull, which always has to be hit
+  const score = player.score < BULL_INDEX
+    ? Math.min(BULL_INDEX, player.score + advance)
+    : CLOCK_TARGETS.length;
+
+  return { players: updatePlayer(players, playerIndex, { score }), bust: false };
+};
+
+const describeTarget = (player: PlayerState, { variant }: AroundTheClockOptions) =>
+  hasFinishedClock(player) ? 'Done' : formatDart(aimFor(variant, CLOCK_TARGETS[player.score]));
+
+export const aroundTheClockRules: GameRules<AroundTheClockOptions> = {
+  id: 'aroundTheClock',
+  name: 'Around the Clock',
+  practice: true,
+  defaultOptions: { variant: 'any' },
+  scoreKind: 'points',
+  getLabel: ({ variant }) =>
+    variant === 'any' ? 'Around the Clock' : `Around the Clock · ${CLOCK_VARIANT_NAMES[variant]}`,
+  describeScore: (player, options) => `Next: ${describeTarget(player, options)}`,
+  initialPlayerState: () => ({ score: 0, initialScore: 0 }),
+  applyDart,
+  endTurn: ({ players, playerIndex }, darts, _bust, turnStartPlayers) => ({
+    players,
+    turn: {
+      darts: [...darts],
+      score: players[playerIndex].score - turnStartPlayers[playerIndex].score, // Numbers moved on
+      remainingScore: players[playerIndex].score,
+      bust: false,
+    },
+  }),
+  getLegWinner: ({ players, playerIndex }) => (hasFinishedClock(players[playerIndex]) ? playerIndex : undefined),
+  isMatchWon: wonMatchFormat,
+  suggestTargets: ({ players, playerIndex, options }) => {
+    const player = players[playerIndex];
+    if (hasFinishedClock(player)) return undefined;
+
+    return { title: 'Aim For', darts: [describeTarget(player, options)] };
+  },
+};
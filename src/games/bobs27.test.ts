@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { DartScore, MatchEvent, PlayerState } from '../types/game';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+import { MatchSetup, applyMatchEvent, createMatchProgress } from '../store/matchLog';
+
+const S = (segment: number) => createDartScore(segment, 1);
+const D = (segment: number) => createDartScore(segment, 2);
+const MISS = createDartScore(0, 1);
+
+const setup: MatchSetup = {
+  gameMode: 'bobs27',
+  gameOptions: {},
+  matchFormat: { type: 'firstTo', legs: 1 },
+  teamRotation: 'carryOn',
+};
+
+const player = (id: number, name: string): PlayerState => ({
+  id,
+  name,
+  score: 0,
+  initialScore: 0,
+  dartsThrown: 0,
+  legsWon: 0,
+  setsWon: 0,
+  currentTurn: false,
+  history: [],
+});
+
+// Each turn is thrown and then passed on
+const play = (turns: DartScore[][]) =>
+  turns
+    .flatMap((darts): MatchEvent[] => [
+      ...darts.map((dart): MatchEvent => ({ type: 'dart', dart, at: 0 })),
+      { type: 'endTurn', at: 0 },
+    ])
+    .reduce(
+      (progress, event) => applyMatchEvent(setup, progress, event),
+      createMatchProgress(setup, [player(1, 'A'), player(2, 'B')])
+    );
+
+const missed = [MISS, MISS, MISS];
+
+describe("bob's 27", () => {
+  it('adds the double in play for every hit on it, starting from 27', () => {
+    const { players } = play([[D(1), S(1), D(1)], [D(2), D(1), MISS]]);
+
+    expect(players[0].score).toBe(31);
+    expect(players[0].history[0]).toMatchObject({ score: 4, remainingScore: 31, target: 1 });
+    expect(players[1].score).toBe(29);
+  });
+
+  it('takes the double away for a turn without a hit', () => {
+    const { players } = play([missed]);
+
+    expect(players[0].score).toBe(25);
+    expect(players[0].history[0]).toMatchObject({ score: -2, remainingScore: 25 });
+  });
+
+  it('puts a player out once they drop to zero or below, and passes them over', () => {
+    // A misses D1 to D5: 27 - 2 - 4 - 6 - 8 - 10
+    const { players, currentPlayerIndex, completedLegs } = play([
+      missed, [D(1)],
+      missed, [D(2)],
+      missed, [D(3)],
+      missed, [D(4)],
+      missed, [D(5)],
+    ]);
+
+    expect(players[0].score).toBe(-3);
+    expect(currentPlayerIndex).toBe(1);
+    expect(completedLegs).toHaveLength(0);
+  });
+
+  it('gives the leg to whoever got furthest when everyone goes out', () => {
+    // B's one hit on D1 keeps them in for a sixth double
+    const { completedLegs, gameFinished } = play([
+      missed, [D(1)],
+      missed, missed,
+      missed, missed,
+      missed, missed,
+      missed, missed,
+      missed,
+    ]);
+
+    expect(completedLegs).toHaveLength(1);
+    expect(completedLegs[0].winnerId).toBe(2);
+    expect(gameFinished).toBe(true);
+  });
+});
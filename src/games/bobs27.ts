@@ -0,0 +1,80 @@
+import { DartScore, PlayerState } from '../types/game';
+import { GameRules, RulesContext } from '../types/rules';
+import { formatDart } from '../utils/dartboard/dartLabel';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+import { hitsDouble, leadingPlayerIndex, updatePlayer, wonMatchFormat } from './shared';
+
+export type Bobs27Options = Record<string, never>;
+
+const START_SCORE = 27;
+
+// One turn at each double, D1 to D20 and then the bull
+export const BOBS_27_TARGETS = [...Array.from({ length: 20 }, (_, i) => i + 1), 25];
+
+// The double in play for a player, from the turns they have had
+const currentTarget = (player: PlayerState) => BOBS_27_TARGETS[player.history.length];
+
+// Down to zero (or below) and the player is out
+const isKnockedOut = (player: PlayerState) => player.score <= 0;
+
+const hasPlayedAllDoubles = (player: PlayerState) => player.history.length >= BOBS_27_TARGETS.length;
+
+const isOutOfLeg = (player: PlayerState) => isKnockedOut(player) || hasPlayedAllDoubles(player);
+
+// Every hit adds the double's value; a turn without one takes it away
+export const bobs27TurnScore = (darts: DartScore[], target: number) => {
+  const hits = darts.filter(dart => hitsDouble(dart, target)).length;
+  return hits ? hits * target * 2 : -target * 2;
+};
+
+const endTurn = ({ players, playerIndex }: RulesContext<Bobs27Options>, darts: DartScore[]) => {
+  const player = players[playerIndex];
+  const target = currentTarget(player);
+  const change = bobs27TurnScore(darts, target);
+  const score = player.score + change;
+
+  return {
+    players: updatePlayer(players, playerIndex, { score }),
+    turn: { darts: [...darts], score: change, remainingScore: score, bust: false, target },
+  };
+};
+
+// Once nobody has turns left, the best survivor takes the leg; if everyone went out, whoever got furthest
+const getLegWinner = ({ players }: RulesContext<Bobs27Options>) => {
+  if (!players.every(isOutOfLeg)) return undefined;
+
+  const survivors = players.filter(player => !isKnockedOut(player));
+  if (survivors.length) return players.indexOf(survivors[leadingPlayerIndex(survivors)]);
+
+  return players.reduce((best, player, index) => (player.history.length > players[best].history.length ? index : best), 0);
+};
+
+const describeTarget = (player: PlayerState) => {
+  if (isKnockedOut(player)) return 'Out';
+  if (hasPlayedAllDoubles(player)) return 'Done';
+
+  return formatDart(createDartScore(currentTarget(player), 2));
+};
+
+export const bobs27Rules: GameRules<Bobs27Options> = {
+  id: 'bobs27',
+  name: "Bob's 27",
+  practice: true,
+  defaultOptions: {},
+  scoreKind: 'points',
+  getLabel: () => "Bob's 27",
+  describeScore: player => `${player.score} · ${describeTarget(player)}`,
+  initialPlayerState: () => ({ score: START_SCORE, initialScore: START_SCORE }),
+  // Hits are counted when the turn ends, since a turn with none costs points
+  applyDart: ({ players }) => ({ players, bust: false }),
+  endTurn,
+  isOutOfLeg,
+  getLegWinner,
+  isMatchWon: wonMatchFormat,
+  suggestTargets: ({ players, playerIndex }) => {
+    const player = players[playerIndex];
+    if (isOutOfLeg(player)) return undefined;
+
+    return { title: 'Aim For', darts: [describeTarget(player)] };
+  },
+};
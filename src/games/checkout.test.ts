@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { DartScore } from '../types/game';
+import { formatDart } from '../utils/dartboard/dartLabel';
+import { findCheckouts, findSetup, finishableScores, suggestCheckout } from './checkout';
+import { satisfiesRule } from './x01';
+
+const doubleOut = (dart: DartScore) => satisfiesRule('double', dart);
+const straightOut = (dart: DartScore) => satisfiesRule('straight', dart);
+
+const route = (darts: DartScore[]) => darts.map(formatDart);
+
+describe('checkout routes', () => {
+  it('finishes the highest checkout through the bull', () => {
+    expect(route(suggestCheckout(170, 3, doubleOut).darts)).toEqual(['T20', 'T20', 'BULL']);
+  });
+
+  it('ranks routes with fewer darts first', () => {
+    const routes = findCheckouts(100, 3, doubleOut);
+
+    expect(route(routes[0].darts)).toEqual(['T20', 'D20']);
+    expect(routes.every((next, i) => i === 0 || next.darts.length >= routes[i - 1].darts.length)).toBe(true);
+  });
+
+  it('prefers the double that splits best among equal routes', () => {
+    expect(route(findCheckouts(57, 3, doubleOut)[0].darts)).toEqual(['17', 'D20']);
+  });
+
+  it('puts a favourite double ahead of the default', () => {
+    const preferences = { preferredDoubles: [19], avoidBull: false };
+    expect(route(findCheckouts(57, 3, doubleOut, preferences)[0].darts)).toEqual(['19', 'D19']);
+  });
+
+  it('steers around the bull when asked', () => {
+    expect(route(suggestCheckout(50, 3, doubleOut).darts)).toEqual(['BULL']);
+
+    const finish = suggestCheckout(50, 3, doubleOut, { preferredDoubles: [], avoidBull: true });
+    expect(finish.darts.some(dart => dart.segment === 25)).toBe(false);
+    expect(finish.darts.reduce((sum, dart) => sum + dart.points, 0)).toBe(50);
+  });
+
+  it('only finishes within the darts left', () => {
+    expect(findCheckouts(100, 1, doubleOut)).toEqual([]);
+    expect(route(findCheckouts(40, 1, doubleOut)[0].darts)).toEqual(['D20']);
+  });
+
+  it('follows the out-rule', () => {
+    expect(route(findCheckouts(3, 1, straightOut)[0].darts)).toEqual(['3']);
+    expect(findCheckouts(3, 1, doubleOut)).toEqual([]);
+  });
+
+  it('sets up a finish when none is in reach', () => {
+    expect(finishableScores(3, doubleOut).has(169)).toBe(false);
+
+    const setup = findSetup(169, 3, doubleOut);
+    expect(setup.finishes).toBe(false);
+    expect(finishableScores(3, doubleOut).has(setup.leave)).toBe(true);
+    expect(169 - setup.darts.reduce((sum, dart) => sum + dart.points, 0)).toBe(setup.leave);
+  });
+
+  it('judges each setup by its own out-rule and preferences', () => {
+    const preferD18 = { preferredDoubles: [18], avoidBull: false };
+
+    expect(findSetup(200, 3, doubleOut).leave).toBe(32);
+    expect(findSetup(200, 3, doubleOut, preferD18).leave).toBe(36);
+    expect(findSetup(200, 3, straightOut).leave).toBe(20);
+    expect(findSetup(200, 3, doubleOut).leave).toBe(32);
+  });
+});
@@ -0,0 +1,198 @@
+import { DartScore } from '../types/game';
+import { CheckoutPreferences } from '../types/profile';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+
+export type CheckoutRoute = {
+  darts: DartScore[]; // In throwing order
+  finishes: boolean; // False for a setup that leaves a finish for the next turn
+  leave: number;
+};
+
+export const DEFAULT_CHECKOUT_PREFERENCES: CheckoutPreferences = {
+  preferredDoubles: [],
+  avoidBull: false,
+};
+
+// Segments offered when picking favourite doubles; 25 is the bullseye
+export const CHECKOUT_DOUBLES = [...Array.from({ length: 20 }, (_, i) => 20 - i), 25];
+
+// Every dart worth aiming at: singles, doubles and trebles 1-20, the outer bull and the bullseye
+const AIMABLE_DARTS: DartScore[] = [
+  ...[1, 2, 3].flatMap(multiplier =>
+    Array.from({ length: 20 }, (_, i) => createDartScore(i + 1, multiplier as 1 | 2 | 3))),
+  createDartScore(25, 1),
+  createDartScore(25, 2),
+];
+
+const MAX_DARTS = 3;
+
+// Unordered groups of darts of one size, built once per size
+const dartGroups: DartScore[][][] = [[[]]];
+
+const getDartGroups = (size: number) => {
+  for (let next = dartGroups.length; next <= size; next++) {
+    dartGroups[next] = dartGroups[next - 1].flatMap(group => {
+      const from = group.length ? AIMABLE_DARTS.indexOf(group[group.length - 1]) : 0;
+      return AIMABLE_DARTS.slice(from).map(dart => [...group, dart]);
+    });
+  }
+  return dartGroups[size];
+};
+
+const sumDarts = (darts: DartScore[]) => darts.reduce((sum, dart) => sum + dart.points, 0);
+
+const isBullDart = (dart: DartScore) => dart.segment === 25;
+
+// Singles are the widest target, then trebles and doubles, and the bull is smallest
+const aimCost = (dart: DartScore) => {
+  if (isBullDart(dart)) return dart.multiplier === 2 ? 3 : 2;
+  return dart.multiplier === 1 ? 0 : 1;
+};
+
+// How many times a double can be split by a single and still leave a double (D16 → D8 → D4 ...)
+const doubleSplits = (dart: DartScore) => {
+  if (dart.multiplier !== 2 || isBullDart(dart)) return 0;
+
+  let splits = 0;
+  for (let segment = dart.segment; segment % 2 === 0; segment /= 2) splits++;
+  return splits;
+};
+
+const preferenceRank = (dart: DartScore, preferences: CheckoutPreferences) => {
+  const rank = dart.multiplier === 2 ? preferences.preferredDoubles.indexOf(dart.segment) : -1;
+  return rank === -1 ? preferences.preferredDoubles.length : rank;
+};
+
+const bullPenalty = (darts: DartScore[], preferences: CheckoutPreferences) =>
+  preferences.avoidBull ? darts.filter(isBullDart).length : 0;
+
+// Compare routes key by key, lower first
+const compareKeys = (a: number[], b: number[]) => {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+};
+
+// Set-up darts go highest first, the finishing dart last
+const orderRoute = (setup: DartScore[], finish?: DartScore) => [
+  ...[...setup].sort((a, b) => b.points - a.points),
+  ...(finish ? [finish] : []),
+];
+
+const routeCost = (darts: DartScore[]) => darts.reduce((sum, dart) => sum + aimCost(dart), 0);
+
+// Ranking keys for a finish, compared in order: avoided bulls, darts used, favourite double,
+// how easy the darts are to hit, and how well the double survives a split
+const finishKeys = (setup: DartScore[], finish: DartScore, preferences: CheckoutPreferences) => [
+  bullPenalty(setup, preferences) + bullPenalty([finish], preferences),
+  setup.length + 1,
+  preferenceRank(finish, preferences),
+  routeCost(setup) + aimCost(finish),
+  -doubleSplits(finish),
+];
+
+// Visit every finish within `dartsLeft` darts, with the score it checks out
+const eachFinish = (
+  dartsLeft: number,
+  canFinish: (dart: DartScore) => boolean,
+  visit: (total: number, setup: DartScore[], finish: DartScore) => void
+) => {
+  const finishers = AIMABLE_DARTS.filter(canFinish);
+
+  for (let setupSize = 0; setupSize < Math.min(dartsLeft, MAX_DARTS); setupSize++) {
+    for (const setup of getDartGroups(setupSize)) {
+      const setupPoints = sumDarts(setup);
+      finishers.forEach(finish => visit(setupPoints + finish.points, setup, finish));
+    }
+  }
+};
+
+// Every score that `dartsLeft` darts (three at most) can check out
+export const finishableScores = (dartsLeft: number, canFinish: (dart: DartScore) => boolean) => {
+  const scores = new Set<number>();
+  eachFinish(dartsLeft, canFinish, total => scores.add(total));
+  return scores;
+};
+
+// Every way to finish `score` with at most `dartsLeft` darts, best first.
+// `canFinish` is the out-rule: whether a dart may land the last point.
+export const findCheckouts = (
+  score: number,
+  dartsLeft: number,
+  canFinish: (dart: DartScore) => boolean,
+  preferences: CheckoutPreferences = DEFAULT_CHECKOUT_PREFERENCES
+): CheckoutRoute[] => {
+  const ranked: { route: CheckoutRoute; keys: number[] }[] = [];
+
+  eachFinish(dartsLeft, canFinish, (total, setup, finish) => {
+    if (total !== score) return;
+    ranked.push({
+      route: { darts: orderRoute(setup, finish), finishes: true, leave: 0 },
+      keys: finishKeys(setup, finish, preferences),
+    });
+  });
+
+  return ranked.sort((a, b) => compareKeys(a.keys, b.keys)).map(({ route }) => route);
+};
+
+// Ranking keys of the best finish for every score a full turn can check out
+const buildFinishTable = (canFinish: (dart: DartScore) => boolean, preferences: CheckoutPreferences) => {
+  const table: number[][] = [];
+
+  eachFinish(MAX_DARTS, canFinish, (total, setup, finish) => {
+    const keys = finishKeys(setup, finish, preferences);
+    if (!table[total] || compareKeys(keys, table[total]) < 0) table[total] = keys;
+  });
+
+  return table;
+};
+
+// Finish tables, built once per out-rule and set of preferences. The out-rule is told by the darts it lets finish.
+const finishTables = new Map<string, number[][]>();
+
+const getFinishTable = (canFinish: (dart: DartScore) => boolean, preferences: CheckoutPreferences) => {
+  const key = [
+    AIMABLE_DARTS.map(dart => (canFinish(dart) ? 1 : 0)).join(''),
+    preferences.preferredDoubles.join(','),
+    preferences.avoidBull,
+  ].join('|');
+
+  if (!finishTables.has(key)) finishTables.set(key, buildFinishTable(canFinish, preferences));
+  return finishTables.get(key);
+};
+
+// With no finish in reach, the darts that leave the easiest finish for the next turn
+export const findSetup = (
+  score: number,
+  dartsLeft: number,
+  canFinish: (dart: DartScore) => boolean,
+  preferences: CheckoutPreferences = DEFAULT_CHECKOUT_PREFERENCES
+): CheckoutRoute | undefined => {
+  const finishTable = getFinishTable(canFinish, preferences);
+  let best: { route: CheckoutRoute; keys: number[] } | undefined;
+
+  for (const setup of getDartGroups(Math.min(dartsLeft, MAX_DARTS))) {
+    const leave = score - sumDarts(setup);
+    const finish = leave > 0 ? finishTable[leave] : undefined;
+    if (!finish) continue;
+
+    // The leave is judged as its own best finish would be, then by the set-up darts
+    const [leaveBulls, ...leaveKeys] = finish;
+    const keys = [leaveBulls + bullPenalty(setup, preferences), ...leaveKeys, routeCost(setup), -sumDarts(setup)];
+
+    if (!best || compareKeys(keys, best.keys) < 0) {
+      best = { route: { darts: orderRoute(setup), finishes: false, leave }, keys };
+    }
+  }
+
+  return best?.route;
+};
+
+// The best finish if there is one, otherwise the best setup
+export const suggestCheckout = (
+  score: number,
+  dartsLeft: number,
+  canFinish: (dart: DartScore) => boolean,
+  preferences: CheckoutPreferences = DEFAULT_CHECKOUT_PREFERENCES
+) => findCheckouts(score, dartsLeft, canFinish, preferences)[0] ?? findSetup(score, dartsLeft, canFinish, preferences);
@@ -0,0 +1,188 @@
+import { DartScore, PlayerState } from '../types/game';
+import { GameRules, RulesContext, SuggestionContext } from '../types/rules';
+import { X01Options, X01Rule, satisfiesRule, x01Rules } from './x01';
+import { finishableScores } from './checkout';
+import { sumPoints, updatePlayer } from './shared';
+
+// '121' climbs a number after every finish and drops one after every miss; 'random' draws each finish
+export type CheckoutDrill = 'oneTwentyOne' | 'random';
+
+export type CheckoutTrainerOptions = {
+  drill: CheckoutDrill;
+  darts: number; // Darts allowed per finish, in whole turns
+  attempts: number; // Finishes tried per leg
+  outRule: X01Rule;
+  seed: number; // Decides the random draws, fixed when the match starts so replays draw the same finishes
+};
+
+export const CHECKOUT_DRILLS: CheckoutDrill[] = ['oneTwentyOne', 'random'];
+
+export const CHECKOUT_DRILL_NAMES: Record<CheckoutDrill, string> = {
+  oneTwentyOne: '121',
+  random: 'Random Finish',
+};
+
+export const TRAINER_DARTS = [3, 6, 9];
+export const TRAINER_ATTEMPTS = [5, 10, 20];
+
+const DARTS_PER_VISIT = 3;
+const LOWEST_FINISH = 2;
+const HIGHEST_FINISH = 170;
+const FIRST_121_TARGET = 121;
+
+// A repeatable number in [0, 1) for the nth draw of a match (mulberry32)
+const drawUnit = (seed: number, n: number) => {
+  let t = (seed + Math.imul(n + 1, 0x6d2b79f5)) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Scores worth drawing: everything from 2 to 170 that the darts allowed can check out
+const drawPools = new Map<string, number[]>();
+
+const drawPool = ({ darts, outRule }: CheckoutTrainerOptions) => {
+  const key = `${outRule}:${Math.min(darts, DARTS_PER_VISIT)}`;
+  if (!drawPools.has(key)) {
+    const finishable = finishableScores(darts, dart => satisfiesRule(outRule, dart));
+    const pool = Array.from({ length: HIGHEST_FINISH - LOWEST_FINISH + 1 }, (_, i) => i + LOWEST_FINISH)
+      .filter(score => darts > DARTS_PER_VISIT || finishable.has(score));
+    drawPools.set(key, pool);
+  }
+  return drawPools.get(key);
+};
+
+const visitsPerAttempt = ({ darts }: CheckoutTrainerOptions) => Math.max(1, Math.ceil(darts / DARTS_PER_VISIT));
+
+// The score for a player's next attempt, from how the last one went
+const nextTarget = (options: CheckoutTrainerOptions, attemptIndex: number, last?: { target: number; success: boolean }) => {
+  if (options.drill === 'random') {
+    const pool = drawPool(options);
+    return pool[Math.floor(drawUnit(options.seed, attemptIndex) * pool.length)];
+  }
+
+  if (!last) return FIRST_121_TARGET;
+
+  const target = last.success ? last.target + 1 : last.target - 1;
+  return Math.min(HIGHEST_FINISH, Math.max(LOWEST_FINISH, target));
+};
+
+// Close the player's current attempt and set up the next
+const startNextAttempt = (player: PlayerState, success: boolean, options: CheckoutTrainerOptions): PlayerState => {
+  const { target, attempts, successes } = player.checkoutAttempt;
+  const score = nextTarget(options, attempts + 1, { target, success });
+
+  return {
+    ...player,
+    score,
+    checkoutAttempt: {
+      target: score,
+      visitsLeft: visitsPerAttempt(options),
+      attempts: attempts + 1,
+      successes: successes + (success ? 1 : 0),
+    },
+  };
+};
+
+const hasFinishedTraining = (player: PlayerState, options: CheckoutTrainerOptions) =>
+  player.checkoutAttempt.attempts >= options.attempts;
+
+// Scored as an X01 leg from the attempt's score, under the trainer's out-rule
+const asX01Options = ({ outRule }: CheckoutTrainerOptions): X01Options => ({
+  startScore: HIGHEST_FINISH,
+  inRule: 'straight',
+  outRule,
+});
+
+const applyDart = ({ players, playerIndex, options }: RulesContext<CheckoutTrainerOptions>, dart: DartScore) => {
+  const outcome = x01Rules.applyDart({ players, playerIndex, options: asX01Options(options) }, dart);
+  if (outcome.bust || outcome.players[playerIndex].score > 0) return outcome;
+
+  // Checked out: on to the next finish, from the next turn
+  const player = startNextAttempt(outcome.players[playerIndex], true, options);
+  return { players: updatePlayer(players, playerIndex, player), bust: false, turnOver: true };
+};
+
+const endTurn = (
+  { players, playerIndex, options }: RulesContext<CheckoutTrainerOptions>,
+  darts: DartScore[],
+  bust: boolean,
+  turnStartPlayers: PlayerState[]
+) => {
+  const started = turnStartPlayers[playerIndex];
+  const attempt = started.checkoutAttempt;
+  const finished = players[playerIndex].checkoutAttempt.attempts > attempt.attempts;
+  const outOfVisits = !finished && attempt.visitsLeft <= 1;
+
+  let player = players[playerIndex];
+  if (outOfVisits) {
+    player = startNextAttempt(player, false, options);
+  } else if (!finished) {
+    player = { ...player, checkoutAttempt: { ...player.checkoutAttempt, visitsLeft: attempt.visitsLeft - 1 } };
+  }
+
+  const remainingScore = finished ? 0 : players[playerIndex].score;
+
+  return {
+    players: updatePlayer(players, playerIndex, player),
+    turn: {
+      darts: [...darts],
+      score: bust ? sumPoints(darts) : started.score - remainingScore,
+      remainingScore,
+      bust,
+      checkoutAttempt: finished || outOfVisits ? { target: attempt.target, success: finished } : undefined,
+    },
+  };
+};
+
+// Most finishes once everyone has had their attempts, the earliest seat among equals
+const getLegWinner = ({ players, options }: RulesContext<CheckoutTrainerOptions>) => {
+  if (!players.every(player => hasFinishedTraining(player, options))) return undefined;
+
+  return players.reduce(
+    (best, player, index) =>
+      (player.checkoutAttempt.successes > players[best].checkoutAttempt.successes ? index : best),
+    0
+  );
+};
+
+// The solver's route for the darts left in this turn
+const suggestTargets = (context: SuggestionContext<CheckoutTrainerOptions>) => {
+  const player = context.players[context.playerIndex];
+  if (hasFinishedTraining(player, context.options)) return undefined;
+
+  return x01Rules.suggestTargets({ ...context, options: asX01Options(context.options) });
+};
+
+export const checkoutTrainerRules: GameRules<CheckoutTrainerOptions> = {
+  id: 'checkoutTrainer',
+  name: 'Checkout Trainer',
+  practice: true,
+  defaultOptions: { drill: 'oneTwentyOne', darts: 9, attempts: 10, outRule: 'double', seed: 0 },
+  scoreKind: 'remaining',
+  getLabel: ({ drill, darts }) => `${CHECKOUT_DRILL_NAMES[drill]} · ${darts} Darts`,
+  startOptions: options => ({ ...options, seed: Math.floor(Math.random() * 2 ** 32) }),
+  describeScore: (player, options) => {
+    const { target, visitsLeft, successes, attempts } = player.checkoutAttempt;
+    if (hasFinishedTraining(player, options)) return `${successes}/${attempts} finished`;
+
+    const visits = visitsPerAttempt(options);
+    const visit = visits > 1 ? ` · Turn ${visits - visitsLeft + 1}/${visits}` : '';
+    return `${player.score} of ${target}${visit}`;
+  },
+  initialPlayerState: options => {
+    const target = nextTarget(options, 0);
+    return {
+      score: target,
+      initialScore: target,
+      checkedIn: true,
+      checkoutAttempt: { target, visitsLeft: visitsPerAttempt(options), attempts: 0, successes: 0 },
+    };
+  },
+  applyDart,
+  endTurn,
+  isOutOfLeg: hasFinishedTraining,
+  getLegWinner,
+  isMatchWon: x01Rules.isMatchWon,
+  suggestTargets,
+};
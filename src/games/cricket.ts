@@ -0,0 +1,119 @@
+import { CRICKET_TARGETS, CricketMarks, DartScore, PlayerState } from '../types/game';
+import { GameRules, RulesContext } from '../types/rules';
+import { wonMatchFormat } from './shared';
+
+export type CricketOptions = {
+  cutThroat: boolean; // Points go to opponents, lowest score wins
+};
+
+const MARKS_TO_CLOSE = 3;
+
+export const createCricketMarks = (): CricketMarks =>
+  Object.fromEntries(CRICKET_TARGETS.map(target => [target, 0]));
+
+export const isCricketTarget = (segment: number) => CRICKET_TARGETS.includes(segment);
+
+export const isTargetClosed = (player: PlayerState, target: number) =>
+  (player.marks?.[target] ?? 0) >= MARKS_TO_CLOSE;
+
+// Marks a dart is worth on its number: singles 1, doubles 2, trebles 3 (outer bull 1, bullseye 2)
+export const dartMarks = (dart: DartScore) => isCricketTarget(dart.segment) ? dart.multiplier : 0;
+
+// Apply one dart for the player at playerIndex, returning the updated players
+export const applyCricketDart = (
+  players: PlayerState[],
+  playerIndex: number,
+  dart: DartScore,
+  cutThroat: boolean
+): PlayerState[] => {
+  const hits = dartMarks(dart);
+  if (!hits) return players;
+
+  const target = dart.segment;
+  const player = players[playerIndex];
+  const currentMarks = player.marks?.[target] ?? 0;
+  const surplus = Math.max(0, currentMarks + hits - MARKS_TO_CLOSE);
+
+  const updatedPlayers = players.map((p, index) =>
+    index === playerIndex
+      ? { ...p, marks: { ...p.marks, [target]: Math.min(MARKS_TO_CLOSE, currentMarks + hits) } }
+      : p
+  );
+
+  // Marks beyond the third score while an opponent still has the number open
+  const openOpponents = updatedPlayers.filter((p, index) => index !== playerIndex && !isTargetClosed(p, target));
+  if (!surplus || !openOpponents.length) return updatedPlayers;
+
+  const points = surplus * target;
+
+  return updatedPlayers.map((p, index) => {
+    if (cutThroat) {
+      return openOpponents.includes(p) ? { ...p, score: p.score + points } : p;
+    }
+    return index === playerIndex ? { ...p, score: p.score + points } : p;
+  });
+};
+
+// A leg is won by closing every number while ahead on points (behind, in cut-throat)
+export const hasWonCricketLeg = (players: PlayerState[], playerIndex: number, cutThroat: boolean) => {
+  const player = players[playerIndex];
+  if (!CRICKET_TARGETS.every(target => isTargetClosed(player, target))) return false;
+
+  const opponents = players.filter((_, index) => index !== playerIndex);
+
+  return cutThroat
+    ? opponents.every(p => player.score <= p.score)
+    : opponents.every(p => player.score >= p.score);
+};
+
+// Points scored by the current turn: own points gained, or points handed to opponents in cut-throat
+export const cricketTurnPoints = (players: PlayerState[], playerIndex: number, cutThroat: boolean) => {
+  if (!cutThroat) {
+    const player = players[playerIndex];
+    return player.score - player.initialScore;
+  }
+
+  return players
+    .filter((_, index) => index !== playerIndex)
+    .reduce((sum, p) => sum + p.score - p.initialScore, 0);
+};
+
+// Aim for the first number still worth marks: open for us, or closed by us but scorable
+const suggestTargets = ({ players, playerIndex }: RulesContext<CricketOptions>) => {
+  const player = players[playerIndex];
+  const opponents = players.filter((_, index) => index !== playerIndex);
+  
+  const target = CRICKET_TARGETS.find(t => !isTargetClosed(player, t))
+    ?? CRICKET_TARGETS.find(t => opponents.some(p => !isTargetClosed(p, t)));
+  
+  if (target === undefined) return undefined;
+  
+  return { title: 'Aim For', darts: [target === 25 ? 'Bull' : `T${target}`] };
+};
+
+export const cricketRules: GameRules<CricketOptions> = {
+  id: 'cricket',
+  name: 'Cricket',
+  defaultOptions: { cutThroat: false },
+  scoreKind: 'points',
+  getLabel: ({ cutThroat }) => (cutThroat ? 'Cut-Throat Cricket' : 'Cricket'),
+  initialPlayerState: () => ({ score: 0, initialScore: 0, marks: createCricketMarks() }),
+  applyDart: ({ players, playerIndex, options }, dart) => ({
+    players: applyCricketDart(players, playerIndex, dart, options.cutThroat),
+    bust: false,
+  }),
+  endTurn: ({ players, playerIndex, options }, darts) => ({
+    players,
+    turn: {
+      darts: [...darts],
+      score: cricketTurnPoints(players, playerIndex, options.cutThroat),
+      remainingScore: players[playerIndex].score,
+      bust: false,
+      marks: darts.reduce((sum, dart) => sum + dartMarks(dart), 0),
+    },
+  }),
+  getLegWinner: ({ players, playerIndex, options }) =>
+    hasWonCricketLeg(players, playerIndex, options.cutThroat) ? playerIndex : undefined,
+  isMatchWon: wonMatchFormat,
+  suggestTargets,
+};
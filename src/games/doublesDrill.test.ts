@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { DartScore, MatchEvent, PlayerState } from '../types/game';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+import { MatchSetup, applyMatchEvent, createMatchProgress } from '../store/matchLog';
+import { DoublesDrillOptions, doublesDrillRules } from './doublesDrill';
+
+const S = (segment: number) => createDartScore(segment, 1);
+const D = (segment: number) => createDartScore(segment, 2);
+const BULL = createDartScore(25, 2);
+const MISS = createDartScore(0, 1);
+
+const options: DoublesDrillOptions = { doubles: [20, 16], laps: 1 };
+
+const setup: MatchSetup = {
+  gameMode: 'doublesDrill',
+  gameOptions: options,
+  matchFormat: { type: 'firstTo', legs: 1 },
+  teamRotation: 'carryOn',
+};
+
+const player = (id: number, name: string): PlayerState => ({
+  id,
+  name,
+  score: 0,
+  initialScore: 0,
+  dartsThrown: 0,
+  legsWon: 0,
+  setsWon: 0,
+  currentTurn: false,
+  history: [],
+});
+
+// Each turn is thrown and then passed on
+const play = (turns: DartScore[][], names = ['A', 'B']) =>
+  turns
+    .flatMap((darts): MatchEvent[] => [
+      ...darts.map((dart): MatchEvent => ({ type: 'dart', dart, at: 0 })),
+      { type: 'endTurn', at: 0 },
+    ])
+    .reduce(
+      (progress, event) => applyMatchEvent(setup, progress, event),
+      createMatchProgress(setup, names.map((name, i) => player(i + 1, name)))
+    );
+
+const suggestion = ({ players, currentPlayerIndex }: ReturnType<typeof play>) =>
+  doublesDrillRules.suggestTargets({ players, playerIndex: currentPlayerIndex, options, dartsRemaining: 3 });
+
+describe('doubles drill', () => {
+  it('counts the hits on the double in play as the turn ends', () => {
+    const { players } = play([[D(20), S(20), D(16)], [D(20), D(20), D(20)]]);
+
+    expect(players[0].score).toBe(1);
+    expect(players[0].history[0]).toMatchObject({ score: 1, remainingScore: 1, target: 20 });
+    expect(players[1].score).toBe(3);
+  });
+
+  it('gives the leg to the most hits once everyone has been round', () => {
+    const { completedLegs, gameFinished } = play([[D(20)], [D(20)], [D(16)], [MISS]]);
+
+    expect(completedLegs).toHaveLength(1);
+    expect(completedLegs[0].winnerId).toBe(1);
+    expect(gameFinished).toBe(true);
+  });
+
+  it('sends a tie for the lead to sudden death at the bull', () => {
+    const tied = play([[D(20)], [MISS], [MISS], [D(16)]]);
+
+    expect(tied.completedLegs).toHaveLength(0);
+    expect(tied.currentPlayerIndex).toBe(0);
+    expect(suggestion(tied)).toEqual({ title: 'Sudden Death', darts: ['BULL'] });
+  });
+
+  it('settles sudden death once a round of it leaves one player ahead', () => {
+    const regulation = [[D(20)], [MISS], [MISS], [D(16)]];
+
+    expect(play([...regulation, [BULL]]).completedLegs).toHaveLength(0);
+
+    const { completedLegs } = play([...regulation, [MISS], [MISS], [MISS], [BULL]]);
+    expect(completedLegs).toHaveLength(1);
+    expect(completedLegs[0].winnerId).toBe(2);
+  });
+
+  it('leaves players behind the tie out of sudden death', () => {
+    const regulation = [[D(20)], [D(20)], [MISS], [MISS], [MISS], [MISS]];
+    const { players, currentPlayerIndex, completedLegs } = play([...regulation, [MISS], [MISS]], ['A', 'B', 'C']);
+
+    expect(completedLegs).toHaveLength(0);
+    expect(currentPlayerIndex).toBe(0);
+    expect(players[2].history).toHaveLength(2);
+  });
+});
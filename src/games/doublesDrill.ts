@@ -0,0 +1,62 @@
+import { DartScore, PlayerState } from '../types/game';
+import { GameRules, RulesContext } from '../types/rules';
+import { formatDart } from '../utils/dartboard/dartLabel';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+import { decideOnScore, hitsDouble, isThrowingOn, updatePlayer, wonMatchFormat } from './shared';
+
+export type DoublesDrillOptions = {
+  doubles: number[]; // Thrown at in this order, one turn each (25 is the bull)
+  laps: number; // Times round the list
+};
+
+export const DRILL_LAPS = [1, 2, 3, 5];
+
+const drillTurns = ({ doubles, laps }: DoublesDrillOptions) => doubles.length * laps;
+
+const hasFinishedDrill = (player: PlayerState, options: DoublesDrillOptions) =>
+  player.history.length >= drillTurns(options);
+
+// The double in play for a player, from the turns they have had; sudden death is played at the bull
+const currentTarget = (player: PlayerState, options: DoublesDrillOptions) =>
+  hasFinishedDrill(player, options) ? 25 : options.doubles[player.history.length % options.doubles.length];
+
+const endTurn = ({ players, playerIndex, options }: RulesContext<DoublesDrillOptions>, darts: DartScore[]) => {
+  const player = players[playerIndex];
+  const target = currentTarget(player, options);
+  const hits = darts.filter(dart => hitsDouble(dart, target)).length;
+  const score = player.score + hits;
+
+  return {
+    players: updatePlayer(players, playerIndex, { score }),
+    turn: { darts: [...darts], score: hits, remainingScore: score, bust: false, target },
+  };
+};
+
+const describeTarget = (player: PlayerState, options: DoublesDrillOptions) =>
+  hasFinishedDrill(player, options) ? 'Done' : formatDart(createDartScore(currentTarget(player, options), 2));
+
+export const doublesDrillRules: GameRules<DoublesDrillOptions> = {
+  id: 'doublesDrill',
+  name: 'Doubles Drill',
+  practice: true,
+  defaultOptions: { doubles: [20, 16, 8, 10], laps: 3 },
+  scoreKind: 'points',
+  getLabel: ({ doubles }) =>
+    `Doubles Drill · ${doubles.map(target => formatDart(createDartScore(target, 2))).join(' ')}`,
+  describeScore: (player, options) => `${player.score} · ${describeTarget(player, options)}`,
+  initialPlayerState: () => ({ score: 0, initialScore: 0 }),
+  // Hits are counted when the turn ends
+  applyDart: ({ players }) => ({ players, bust: false }),
+  endTurn,
+  isOutOfLeg: (player, options, players) => !isThrowingOn(players, player, drillTurns(options)),
+  // Whoever hit the most once everyone has been round, with a tie for the lead going to sudden death
+  getLegWinner: ({ players, options }) => decideOnScore(players, drillTurns(options)).winnerIndex,
+  isMatchWon: wonMatchFormat,
+  suggestTargets: ({ players, playerIndex, options }) => {
+    const player = players[playerIndex];
+    if (!isThrowingOn(players, player, drillTurns(options))) return undefined;
+    if (hasFinishedDrill(player, options)) return { title: 'Sudden Death', darts: [formatDart(createDartScore(25, 2))] };
+
+    return { title: 'Aim For', darts: [describeTarget(player, options)] };
+  },
+};
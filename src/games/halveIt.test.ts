@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { DartScore, MatchEvent, PlayerState } from '../types/game';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+import { MatchSetup, applyMatchEvent, createMatchProgress } from '../store/matchLog';
+import { HalveItOptions, halveItRules } from './halveIt';
+
+const S = (segment: number) => createDartScore(segment, 1);
+const D = (segment: number) => createDartScore(segment, 2);
+const T = (segment: number) => createDartScore(segment, 3);
+const MISS = createDartScore(0, 1);
+
+const options: HalveItOptions = { targets: [19, 'double'] };
+
+const setup: MatchSetup = {
+  gameMode: 'halveIt',
+  gameOptions: options,
+  matchFormat: { type: 'firstTo', legs: 1 },
+  teamRotation: 'carryOn',
+};
+
+const player = (id: number, name: string): PlayerState => ({
+  id,
+  name,
+  score: 0,
+  initialScore: 0,
+  dartsThrown: 0,
+  legsWon: 0,
+  setsWon: 0,
+  currentTurn: false,
+  history: [],
+});
+
+// Each turn is thrown and then passed on
+const play = (turns: DartScore[][]) =>
+  turns
+    .flatMap((darts): MatchEvent[] => [
+      ...darts.map((dart): MatchEvent => ({ type: 'dart', dart, at: 0 })),
+      { type: 'endTurn', at: 0 },
+    ])
+    .reduce(
+      (progress, event) => applyMatchEvent(setup, progress, event),
+      createMatchProgress(setup, [player(1, 'A'), player(2, 'B')])
+    );
+
+const suggestion = ({ players, currentPlayerIndex }: ReturnType<typeof play>) =>
+  halveItRules.suggestTargets({ players, playerIndex: currentPlayerIndex, options, dartsRemaining: 3 });
+
+describe('halve-it', () => {
+  it('scores darts that hit the target as they land', () => {
+    const { players } = play([[S(19), T(19), S(20)], [MISS], [D(5), T(20), MISS]]);
+
+    expect(players[0].score).toBe(86);
+    expect(players[0].history.map(turn => turn.score)).toEqual([76, 10]);
+  });
+
+  it('halves the score, rounding down, for a turn that misses the target', () => {
+    const { players } = play([[S(19)], [MISS], [T(20), S(20), MISS]]);
+
+    expect(players[0].score).toBe(9);
+    expect(players[0].history[1]).toMatchObject({ score: -10, remainingScore: 9, halved: true });
+  });
+
+  it('gives the leg to the highest score once everyone has been through the list', () => {
+    const { completedLegs, gameFinished } = play([[S(19)], [T(19)], [D(1)], [MISS]]);
+
+    expect(completedLegs).toHaveLength(1);
+    expect(completedLegs[0].winnerId).toBe(2);
+    expect(gameFinished).toBe(true);
+  });
+
+  it('sends a tie for the lead to sudden death at the bull', () => {
+    const regulation = [[S(19)], [S(19)], [D(1)], [D(1)]];
+    const tied = play(regulation);
+
+    expect(tied.completedLegs).toHaveLength(0);
+    expect(tied.currentPlayerIndex).toBe(0);
+    expect(suggestion(tied)).toEqual({ title: 'Sudden Death · Bull', darts: ['BULL'] });
+
+    // Both missing halves both, and the tie stands
+    expect(play([...regulation, [MISS], [MISS]]).completedLegs).toHaveLength(0);
+
+    const { players, completedLegs } = play([...regulation, [S(25)], [MISS]]);
+    expect(players[0].score).toBe(46);
+    expect(completedLegs).toHaveLength(1);
+    expect(completedLegs[0].winnerId).toBe(1);
+  });
+});
@@ -0,0 +1,99 @@
+import { DartScore, PlayerState } from '../types/game';
+import { GameRules, RulesContext } from '../types/rules';
+import { formatDart } from '../utils/dartboard/dartLabel';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+import { decideOnScore, isThrowingOn, sumPoints, updatePlayer, wonMatchFormat } from './shared';
+
+// A number (25 is the bull), or any double or any treble
+export type HalveItTarget = number | 'double' | 'treble';
+
+export type HalveItOptions = {
+  targets: HalveItTarget[]; // One round each, in order
+};
+
+export const HALVE_IT_CLASSIC: HalveItTarget[] = [15, 16, 'double', 17, 18, 'treble', 19, 20, 25];
+
+// Every target offered when building a list
+export const HALVE_IT_TARGETS: HalveItTarget[] = [
+  ...Array.from({ length: 20 }, (_, i) => i + 1),
+  25,
+  'double',
+  'treble',
+];
+
+export const describeHalveItTarget = (target: HalveItTarget) => {
+  if (target === 'double') return 'Any Double';
+  if (target === 'treble') return 'Any Treble';
+  return target === 25 ? 'Bull' : target.toString();
+};
+
+export const hitsHalveItTarget = (dart: DartScore, target: HalveItTarget) => {
+  if (dart.isTotal || !dart.points) return false;
+  if (target === 'double') return dart.multiplier === 2;
+  if (target === 'treble') return dart.multiplier === 3;
+  return dart.segment === target;
+};
+
+// The target in play for a player, from the turns they have had; sudden death is played at the bull
+export const halveItTarget = (player: PlayerState, { targets }: HalveItOptions): HalveItTarget =>
+  targets[player.history.length] ?? 25;
+
+const isSuddenDeath = (player: PlayerState, { targets }: HalveItOptions) => player.history.length >= targets.length;
+
+// Darts on the target score as they land
+const applyDart = ({ players, playerIndex, options }: RulesContext<HalveItOptions>, dart: DartScore) => {
+  const player = players[playerIndex];
+  if (!hitsHalveItTarget(dart, halveItTarget(player, options))) return { players, bust: false };
+
+  return { players: updatePlayer(players, playerIndex, { score: player.score + dart.points }), bust: false };
+};
+
+// A turn that misses the target with every dart halves the score, rounding down
+const endTurn = (
+  { players, playerIndex, options }: RulesContext<HalveItOptions>,
+  darts: DartScore[],
+  _bust: boolean,
+  turnStartPlayers: PlayerState[]
+) => {
+  const target = halveItTarget(turnStartPlayers[playerIndex], options);
+  const hits = darts.filter(dart => hitsHalveItTarget(dart, target));
+  const startScore = turnStartPlayers[playerIndex].score;
+  const score = hits.length ? players[playerIndex].score : Math.floor(startScore / 2);
+
+  return {
+    players: updatePlayer(players, playerIndex, { score }),
+    turn: {
+      darts: [...darts],
+      score: hits.length ? sumPoints(hits) : score - startScore,
+      remainingScore: score,
+      bust: false,
+      halved: !hits.length,
+    },
+  };
+};
+
+export const halveItRules: GameRules<HalveItOptions> = {
+  id: 'halveIt',
+  name: 'Halve-It',
+  defaultOptions: { targets: HALVE_IT_CLASSIC },
+  scoreKind: 'points',
+  getLabel: () => 'Halve-It',
+  initialPlayerState: () => ({ score: 0, initialScore: 0 }),
+  applyDart,
+  endTurn,
+  isOutOfLeg: (player, options, players) => !isThrowingOn(players, player, options.targets.length),
+  // The highest score once everyone has been through the list, with a tie for the lead going to sudden death
+  getLegWinner: ({ players, options }) => decideOnScore(players, options.targets.length).winnerIndex,
+  isMatchWon: wonMatchFormat,
+  suggestTargets: ({ players, playerIndex, options }) => {
+    const player = players[playerIndex];
+    const target = halveItTarget(player, options);
+
+    // The most a dart can score on the target
+    const aim = typeof target === 'number'
+      ? formatDart(createDartScore(target, target === 25 ? 2 : 3))
+      : formatDart(createDartScore(20, target === 'double' ? 2 : 3));
+    const round = isSuddenDeath(player, options) ? 'Sudden Death' : `Round ${player.history.length + 1}`;
+    return { title: `${round} · ${describeHalveItTarget(target)}`, darts: [aim] };
+  },
+};
@@ -0,0 +1,71 @@
+import { DartScore, GameMode, GameOptions, PlayerState } from '../types/game';
+import { GameRules } from '../types/rules';
+import { updatePlayer } from './shared';
+import { x01Rules } from './x01';
+import { cricketRules } from './cricket';
+import { killerRules } from './killer';
+import { shanghaiRules } from './shanghai';
+import { halveItRules } from './halveIt';
+import { aroundTheClockRules } from './aroundTheClock';
+import { bobs27Rules } from './bobs27';
+import { doublesDrillRules } from './doublesDrill';
+import { checkoutTrainerRules } from './checkoutTrainer';
+
+export const GAME_RULES: Record<GameMode, GameRules> = {
+  x01: x01Rules,
+  cricket: cricketRules,
+  killer: killerRules,
+  shanghai: shanghaiRules,
+  halveIt: halveItRules,
+  aroundTheClock: aroundTheClockRules,
+  bobs27: bobs27Rules,
+  doublesDrill: doublesDrillRules,
+  checkoutTrainer: checkoutTrainerRules,
+};
+
+export const getGameRules = (gameMode: GameMode): GameRules => GAME_RULES[gameMode];
+
+export type TurnReplay = {
+  players: PlayerState[];
+  bust: boolean;
+  turnOver: boolean; // No more darts count this turn, after a bust or a dart that ends it
+  legWinner?: number;
+};
+
+// Score the darts of a turn from the players as they stood before it
+export const playTurn = (
+  rules: GameRules,
+  options: GameOptions,
+  turnStartPlayers: PlayerState[],
+  playerIndex: number,
+  darts: DartScore[]
+): TurnReplay => {
+  let players = turnStartPlayers;
+  let bust = false;
+  let turnOver = false;
+  
+  for (const dart of darts) {
+    const dartsThrown = players[playerIndex].dartsThrown + 1;
+    players = updatePlayer(players, playerIndex, { dartsThrown });
+    
+    // Darts after a bust (or a dart that ended the turn) still count as thrown, but score nothing
+    if (turnOver) continue;
+    
+    const outcome = rules.applyDart({ players, playerIndex, options }, dart);
+    
+    if (outcome.bust) {
+      bust = true;
+      turnOver = true;
+      players = updatePlayer(turnStartPlayers, playerIndex, { dartsThrown });
+      continue;
+    }
+    
+    players = outcome.players;
+    turnOver = Boolean(outcome.turnOver);
+    
+    const legWinner = rules.getLegWinner({ players, playerIndex, options });
+    if (legWinner !== undefined) return { players, bust, turnOver, legWinner };
+  }
+  
+  return { players, bust, turnOver };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { MatchEvent, PlayerState } from '../types/game';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+import { MatchSetup, applyMatchEvent, createMatchProgress } from '../store/matchLog';
+
+const S = (segment: number) => createDartScore(segment, 1);
+
+const setup: MatchSetup = {
+  gameMode: 'killer',
+  gameOptions: { lives: 3 },
+  matchFormat: { type: 'firstTo', legs: 1 },
+  teamRotation: 'carryOn',
+};
+
+const player = (id: number, name: string): PlayerState => ({
+  id,
+  name,
+  score: 0,
+  initialScore: 0,
+  dartsThrown: 0,
+  legsWon: 0,
+  setsWon: 0,
+  currentTurn: false,
+  history: [],
+});
+
+const play = (events: MatchEvent[]) =>
+  events.reduce(
+    (progress, event) => applyMatchEvent(setup, progress, event),
+    createMatchProgress(setup, [player(1, 'A'), player(2, 'B')])
+  );
+
+const dart = (segment: number): MatchEvent => ({ type: 'dart', dart: S(segment), at: 0 });
+const endTurn: MatchEvent = { type: 'endTurn', at: 0 };
+
+describe('killer claim turn', () => {
+  it('ends the turn on the dart that claims a number', () => {
+    const { players, currentTurn, dartsRemaining } = play([dart(7)]);
+
+    expect(players[0].killerNumber).toBe(7);
+    expect(currentTurn).toHaveLength(1);
+    expect(dartsRemaining).toBe(0);
+  });
+
+  it('takes no more darts once the number is claimed', () => {
+    const claimed = play([dart(7)]);
+
+    expect(applyMatchEvent(setup, claimed, dart(8))).toBe(claimed);
+  });
+
+  it('passes the next player a fresh turn to claim their own number', () => {
+    const { players, currentPlayerIndex, currentTurn, dartsRemaining } = play([dart(7), endTurn, dart(9)]);
+
+    expect(currentPlayerIndex).toBe(1);
+    expect(players[1].killerNumber).toBe(9);
+    expect(currentTurn).toHaveLength(1);
+    expect(dartsRemaining).toBe(0);
+  });
+
+  it('keeps the turn going after a dart at a number already taken', () => {
+    const { players, currentTurn, dartsRemaining } = play([dart(7), endTurn, dart(7)]);
+
+    expect(players[1].killerNumber).toBeUndefined();
+    expect(currentTurn).toHaveLength(1);
+    expect(dartsRemaining).toBe(2);
+  });
+});
@@ -0,0 +1,109 @@
+import { DartScore, PlayerState } from '../types/game';
+import { GameRules, RulesContext } from '../types/rules';
+import { updatePlayer, wonMatchFormat } from './shared';
+
+export type KillerOptions = {
+  lives: number;
+};
+
+export const KILLER_LIVES = [3, 5, 7];
+
+// A player's score is their lives; none left and they are out
+export const isEliminated = (player: PlayerState) => player.score <= 0;
+
+const isNumberTaken = (players: PlayerState[], segment: number) =>
+  players.some(player => player.killerNumber === segment);
+
+// The first dart on a free number 1-20 claims it, and ends the turn
+const claimNumber = (players: PlayerState[], playerIndex: number, dart: DartScore) => {
+  if (dart.isTotal || dart.segment < 1 || dart.segment > 20 || isNumberTaken(players, dart.segment)) {
+    return { players, bust: false };
+  }
+
+  return { players: updatePlayer(players, playerIndex, { killerNumber: dart.segment }), bust: false, turnOver: true };
+};
+
+const applyDart = ({ players, playerIndex }: RulesContext<KillerOptions>, dart: DartScore) => {
+  const player = players[playerIndex];
+  if (isEliminated(player)) return { players, bust: false };
+  if (player.killerNumber === undefined) return claimNumber(players, playerIndex, dart);
+
+  if (dart.multiplier !== 2 || dart.isTotal) return { players, bust: false };
+
+  // Your own double makes you a killer
+  if (!player.isKiller) {
+    return dart.segment === player.killerNumber
+      ? { players: updatePlayer(players, playerIndex, { isKiller: true }), bust: false }
+      : { players, bust: false };
+  }
+
+  // A killer takes a life from whoever owns the double, themselves included
+  const victim = players.findIndex(p => p.killerNumber === dart.segment && !isEliminated(p));
+  if (victim === -1) return { players, bust: false };
+
+  return { players: updatePlayer(players, victim, { score: players[victim].score - 1 }), bust: false };
+};
+
+const endTurn = (
+  { players, playerIndex }: RulesContext<KillerOptions>,
+  darts: DartScore[],
+  _bust: boolean,
+  turnStartPlayers: PlayerState[]
+) => ({
+  players,
+  turn: {
+    darts: [...darts],
+    // Lives taken from the others
+    score: players.reduce(
+      (sum, player, index) => (index === playerIndex ? sum : sum + turnStartPlayers[index].score - player.score),
+      0
+    ),
+    remainingScore: players[playerIndex].score,
+    bust: false,
+  },
+});
+
+// The last player with lives left
+const getLegWinner = ({ players }: RulesContext<KillerOptions>) => {
+  const alive = players.filter(player => !isEliminated(player));
+  return alive.length === 1 && players.length > 1 ? players.indexOf(alive[0]) : undefined;
+};
+
+// Pick a number, arm yourself on its double, then go after whoever has fewest lives
+const suggestTargets = ({ players, playerIndex }: RulesContext<KillerOptions>) => {
+  const player = players[playerIndex];
+
+  if (player.killerNumber === undefined) return { title: 'Pick Your Number', darts: ['1–20'] };
+  if (!player.isKiller) return { title: 'Become a Killer', darts: [`D${player.killerNumber}`] };
+
+  const [victim] = players
+    .filter((p, index) => index !== playerIndex && !isEliminated(p) && p.killerNumber !== undefined)
+    .sort((a, b) => a.score - b.score);
+
+  return victim ? { title: `Go After ${victim.name}`, darts: [`D${victim.killerNumber}`] } : undefined;
+};
+
+export const killerRules: GameRules<KillerOptions> = {
+  id: 'killer',
+  name: 'Killer',
+  minPlayers: 2,
+  defaultOptions: { lives: 3 },
+  scoreKind: 'points',
+  getLabel: ({ lives }) => `Killer · ${lives} Lives`,
+  describeScore: player => {
+    if (isEliminated(player)) return 'Out';
+    return `${player.score} ${player.score === 1 ? 'life' : 'lives'}`;
+  },
+  initialPlayerState: ({ lives }) => ({
+    score: lives,
+    initialScore: lives,
+    killerNumber: undefined,
+    isKiller: false,
+  }),
+  applyDart,
+  endTurn,
+  isOutOfLeg: isEliminated,
+  getLegWinner,
+  isMatchWon: wonMatchFormat,
+  suggestTargets,
+};
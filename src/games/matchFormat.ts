@@ -0,0 +1,57 @@
+import { MatchFormat, PlayerState, SetResult } from '../types/game';
+
+export type MatchFormatType = MatchFormat['type'];
+
+export const MATCH_FORMAT_NAMES: Record<MatchFormatType, string> = {
+  firstTo: 'First to',
+  bestOf: 'Best of',
+  sets: 'Sets',
+};
+
+// Starting point when switching format type in setup
+export const MATCH_FORMAT_DEFAULTS: Record<MatchFormatType, MatchFormat> = {
+  firstTo: { type: 'firstTo', legs: 3 },
+  bestOf: { type: 'bestOf', legs: 5 },
+  sets: { type: 'sets', sets: 3, legsPerSet: 3 },
+};
+
+export const DEFAULT_MATCH_FORMAT = MATCH_FORMAT_DEFAULTS.firstTo;
+
+// Counts offered in setup
+export const FIRST_TO_LEGS = [1, 2, 3, 4, 5, 7];
+export const BEST_OF_LEGS = [3, 5, 7, 9, 11];
+export const SETS_TO_WIN = [1, 2, 3, 4, 5];
+export const LEGS_PER_SET = [2, 3, 4];
+
+// Legs needed to take a set (the whole match, for leg formats)
+export const legsToWinSet = (format: MatchFormat) => {
+  switch (format.type) {
+    case 'firstTo':
+      return format.legs;
+    case 'bestOf':
+      return Math.floor(format.legs / 2) + 1;
+    case 'sets':
+      return format.legsPerSet;
+  }
+};
+
+export const setsToWinMatch = (format: MatchFormat) => (format.type === 'sets' ? format.sets : 1);
+
+export const describeMatchFormat = (format: MatchFormat) => {
+  switch (format.type) {
+    case 'firstTo':
+      return `First to ${format.legs} ${format.legs === 1 ? 'leg' : 'legs'}`;
+    case 'bestOf':
+      return `Best of ${format.legs} legs`;
+    case 'sets':
+      return `First to ${format.sets} ${format.sets === 1 ? 'set' : 'sets'}, ${format.legsPerSet} legs per set`;
+  }
+};
+
+// Legs won across the whole match, including the set in progress
+export const totalLegsWon = (player: PlayerState, completedSets: SetResult[]) =>
+  completedSets.reduce((sum, set) => sum + (set.legsWon[player.id] ?? 0), player.legsWon);
+
+// Number of the leg being played, counting from 1 across the match
+export const currentLegNumber = (players: PlayerState[], completedSets: SetResult[]) =>
+  players.reduce((sum, player) => sum + totalLegsWon(player, completedSets), 0) + 1;
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { DartScore, MatchEvent, PlayerState } from '../types/game';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+import { MatchSetup, applyMatchEvent, createMatchProgress } from '../store/matchLog';
+import { ShanghaiOptions, shanghaiRules } from './shanghai';
+
+const S = (segment: number) => createDartScore(segment, 1);
+const D = (segment: number) => createDartScore(segment, 2);
+const T = (segment: number) => createDartScore(segment, 3);
+const MISS = createDartScore(0, 1);
+
+const options: ShanghaiOptions = { rounds: 2 };
+
+const setup: MatchSetup = {
+  gameMode: 'shanghai',
+  gameOptions: options,
+  matchFormat: { type: 'firstTo', legs: 1 },
+  teamRotation: 'carryOn',
+};
+
+const player = (id: number, name: string): PlayerState => ({
+  id,
+  name,
+  score: 0,
+  initialScore: 0,
+  dartsThrown: 0,
+  legsWon: 0,
+  setsWon: 0,
+  currentTurn: false,
+  history: [],
+});
+
+// Each turn is thrown and then passed on
+const play = (turns: DartScore[][]) =>
+  turns
+    .flatMap((darts): MatchEvent[] => [
+      ...darts.map((dart): MatchEvent => ({ type: 'dart', dart, at: 0 })),
+      { type: 'endTurn', at: 0 },
+    ])
+    .reduce(
+      (progress, event) => applyMatchEvent(setup, progress, event),
+      createMatchProgress(setup, [player(1, 'A'), player(2, 'B')])
+    );
+
+const suggestion = ({ players, currentPlayerIndex }: ReturnType<typeof play>) =>
+  shanghaiRules.suggestTargets({ players, playerIndex: currentPlayerIndex, options, dartsRemaining: 3 });
+
+describe('shanghai', () => {
+  it('only scores darts on the round number', () => {
+    const { players } = play([[S(1), T(1), S(2)], [MISS, MISS, MISS], [T(2), S(1), D(2)]]);
+
+    expect(players[0].score).toBe(14);
+    expect(players[0].history.map(turn => turn.score)).toEqual([4, 10]);
+    expect(players[0].roundMultipliers).toEqual([]);
+  });
+
+  it('wins the leg on the spot with a single, double and treble in one turn', () => {
+    const { players, completedLegs, gameFinished } = play([[T(1), S(1), D(1)]]);
+
+    expect(completedLegs).toHaveLength(1);
+    expect(completedLegs[0].winnerId).toBe(1);
+    expect(players[0].history[0]).toMatchObject({ score: 6 });
+    expect(gameFinished).toBe(true);
+  });
+
+  it('needs all three rings in the same turn', () => {
+    const { completedLegs } = play([[S(1), D(1), MISS], [MISS], [T(1), MISS, MISS]]);
+
+    expect(completedLegs).toHaveLength(0);
+  });
+
+  it('gives the leg to the highest score once every round is played', () => {
+    const { completedLegs } = play([[S(1)], [T(1)], [S(2)], [S(2)]]);
+
+    expect(completedLegs).toHaveLength(1);
+    expect(completedLegs[0].winnerId).toBe(2);
+  });
+
+  it('sends a tie for the lead to sudden death at the bull', () => {
+    const regulation = [[S(1)], [S(1)], [S(2)], [S(2)]];
+    const tied = play(regulation);
+
+    expect(tied.completedLegs).toHaveLength(0);
+    expect(tied.currentPlayerIndex).toBe(0);
+    expect(suggestion(tied)).toEqual({ title: 'Sudden Death', darts: ['BULL'] });
+
+    const { players, completedLegs } = play([...regulation, [S(20)], [S(25)]]);
+    expect(players[0].score).toBe(3);
+    expect(completedLegs).toHaveLength(1);
+    expect(completedLegs[0].winnerId).toBe(2);
+  });
+});
@@ -0,0 +1,97 @@
+import { DartScore, PlayerState } from '../types/game';
+import { GameRules, RulesContext, SuggestionContext } from '../types/rules';
+import { formatDart } from '../utils/dartboard/dartLabel';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+import { decideOnScore, isThrowingOn, updatePlayer, wonMatchFormat } from './shared';
+
+export type ShanghaiOptions = {
+  rounds: number; // Round n is played on number n
+};
+
+export const SHANGHAI_ROUNDS = [7, 20];
+
+const SHANGHAI_MULTIPLIERS = [1, 2, 3];
+
+// The number in play for a player, from the turns they have had
+export const shanghaiRound = (player: PlayerState) => player.history.length + 1;
+
+const isSuddenDeath = (player: PlayerState, { rounds }: ShanghaiOptions) => player.history.length >= rounds;
+
+// The number a player scores on: the round's, or the bull in sudden death
+const shanghaiNumber = (player: PlayerState, options: ShanghaiOptions) =>
+  isSuddenDeath(player, options) ? 25 : shanghaiRound(player);
+
+// A single, a double and a treble of the round's number in one turn
+export const isShanghai = (player: PlayerState) =>
+  SHANGHAI_MULTIPLIERS.every(multiplier => player.roundMultipliers?.includes(multiplier));
+
+// Only darts on the round's number score
+const applyDart = ({ players, playerIndex, options }: RulesContext<ShanghaiOptions>, dart: DartScore) => {
+  const player = players[playerIndex];
+  if (dart.isTotal || dart.segment !== shanghaiNumber(player, options)) return { players, bust: false };
+
+  return {
+    players: updatePlayer(players, playerIndex, {
+      score: player.score + dart.points,
+      roundMultipliers: [...(player.roundMultipliers ?? []), dart.multiplier],
+    }),
+    bust: false,
+  };
+};
+
+const endTurn = (
+  { players, playerIndex }: RulesContext<ShanghaiOptions>,
+  darts: DartScore[],
+  _bust: boolean,
+  turnStartPlayers: PlayerState[]
+) => ({
+  players: updatePlayer(players, playerIndex, { roundMultipliers: [] }),
+  turn: {
+    darts: [...darts],
+    score: players[playerIndex].score - turnStartPlayers[playerIndex].score,
+    remainingScore: players[playerIndex].score,
+    bust: false,
+  },
+});
+
+// A Shanghai wins on the spot; otherwise the highest score once every round is played, with a tie for the lead
+// going to sudden death (the bull has no treble, so no Shanghai there)
+const getLegWinner = ({ players, playerIndex, options }: RulesContext<ShanghaiOptions>) => {
+  if (isShanghai(players[playerIndex])) return playerIndex;
+
+  return decideOnScore(players, options.rounds).winnerIndex;
+};
+
+// Trebles score most; with two of the three in, go for the one that makes the Shanghai
+const suggestTargets = ({ players, playerIndex, options, dartsRemaining }: SuggestionContext<ShanghaiOptions>) => {
+  const player = players[playerIndex];
+  if (!isThrowingOn(players, player, options.rounds)) return undefined;
+  if (isSuddenDeath(player, options)) return { title: 'Sudden Death', darts: [formatDart(createDartScore(25, 2))] };
+
+  const round = shanghaiRound(player);
+  const missing = SHANGHAI_MULTIPLIERS.filter(multiplier => !player.roundMultipliers?.includes(multiplier));
+
+  if (missing.length <= dartsRemaining && missing.length < SHANGHAI_MULTIPLIERS.length) {
+    return {
+      title: 'Shanghai On',
+      darts: missing.map(multiplier => formatDart(createDartScore(round, multiplier as 1 | 2 | 3))),
+    };
+  }
+
+  return { title: `Round ${round}`, darts: [formatDart(createDartScore(round, 3))] };
+};
+
+export const shanghaiRules: GameRules<ShanghaiOptions> = {
+  id: 'shanghai',
+  name: 'Shanghai',
+  defaultOptions: { rounds: 7 },
+  scoreKind: 'points',
+  getLabel: ({ rounds }) => `Shanghai · 1–${rounds}`,
+  initialPlayerState: () => ({ score: 0, initialScore: 0, roundMultipliers: [] }),
+  applyDart,
+  endTurn,
+  isOutOfLeg: (player, options, players) => !isThrowingOn(players, player, options.rounds),
+  getLegWinner,
+  isMatchWon: wonMatchFormat,
+  suggestTargets,
+};
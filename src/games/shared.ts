@@ -0,0 +1,49 @@
+import { DartScore, MatchFormat, PlayerState } from '../types/game';
+import { setsToWinMatch } from './matchFormat';
+
+// Copy of players with one player's fields replaced
+export const updatePlayer = (
+  players: PlayerState[],
+  index: number,
+  changes: Partial<PlayerState>
+): PlayerState[] => players.map((player, i) => (i === index ? { ...player, ...changes } : player));
+
+// The usual match rule: the match format decides how many sets are needed
+export const wonMatchFormat = (player: PlayerState, format: MatchFormat) =>
+  player.setsWon >= setsToWinMatch(format);
+
+export const sumPoints = (darts: { points: number }[]) => darts.reduce((sum, dart) => sum + dart.points, 0);
+
+// A hit on a number's double; the bullseye is the bull's
+export const hitsDouble = (dart: DartScore, target: number) =>
+  !dart.isTotal && dart.segment === target && dart.multiplier === 2;
+
+// Index of the player ahead on score, the earliest seat among equals
+export const leadingPlayerIndex = (players: PlayerState[]) =>
+  players.reduce((best, player, index) => (player.score > players[best].score ? index : best), 0);
+
+export type ScoreDecider = {
+  winnerIndex?: number;
+  throwing: number[]; // Players with a turn still to throw before the leg can be decided
+};
+
+// The highest score once everyone has had `turns` turns. Players level on top go to sudden death: another turn each,
+// round after round, until one of them leads.
+export const decideOnScore = (players: PlayerState[], turns: number): ScoreDecider => {
+  let contenders = players.map((_, index) => index);
+
+  for (let round = turns; ; round++) {
+    const throwing = contenders.filter(index => players[index].history.length < round);
+    if (throwing.length) return { throwing };
+
+    const scores = contenders.map(index => players[index].history[round - 1].remainingScore);
+    const top = Math.max(...scores);
+    contenders = contenders.filter((_, i) => scores[i] === top);
+
+    if (contenders.length === 1) return { winnerIndex: contenders[0], throwing: [] };
+  }
+};
+
+// Whether a player still has a turn to throw in a leg decided on score
+export const isThrowingOn = (players: PlayerState[], player: PlayerState, turns: number) =>
+  decideOnScore(players, turns).throwing.includes(players.indexOf(player));
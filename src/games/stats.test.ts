@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DartScore, MatchEvent, PlayerState, TeamMember } from '../types/game';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+import { MatchSetup, applyMatchEvent, createMatchProgress } from '../store/matchLog';
+import { computePlayerStats } from './stats';
+import { X01Options } from './x01';
+
+const S = (segment: number) => createDartScore(segment, 1);
+const D = (segment: number) => createDartScore(segment, 2);
+
+const options: X01Options = { startScore: 101, inRule: 'straight', outRule: 'double' };
+
+const setup: MatchSetup = {
+  gameMode: 'x01',
+  gameOptions: options,
+  matchFormat: { type: 'firstTo', legs: 1 },
+  teamRotation: 'carryOn',
+};
+
+const team = (id: number, members: TeamMember[]): PlayerState => ({
+  id,
+  name: members.map(member => member.name).join(' & '),
+  members,
+  score: 0,
+  initialScore: 0,
+  dartsThrown: 0,
+  legsWon: 0,
+  setsWon: 0,
+  currentTurn: false,
+  history: [],
+});
+
+const turn = (darts: DartScore[], end = true): MatchEvent[] => [
+  ...darts.map(dart => ({ type: 'dart' as const, dart, at: 0 })),
+  ...(end ? [{ type: 'endTurn' as const, at: 0 }] : []),
+];
+
+// A1 scores 60, B1 three ones, then A2 takes out the 41 left
+const playLeg = () => {
+  const players = [
+    team(1, [{ id: 11, name: 'A1' }, { id: 12, name: 'A2' }]),
+    team(2, [{ id: 21, name: 'B1' }, { id: 22, name: 'B2' }]),
+  ];
+  const events = [...turn([S(20), S(20), S(20)]), ...turn([S(1), S(1), S(1)]), ...turn([S(1), D(20)], false)];
+
+  return events.reduce((progress, event) => applyMatchEvent(setup, progress, event), createMatchProgress(setup, players));
+};
+
+describe('team stats', () => {
+  it('credits each member with the turns they threw and their team with the win', () => {
+    const { completedLegs, gameFinished } = playLeg();
+    expect(gameFinished).toBe(true);
+
+    const first = computePlayerStats(completedLegs, 11, options);
+    expect(first).toMatchObject({ legsWon: 1, turns: 1, dartsThrown: 3, pointsScored: 60, highestCheckout: 0 });
+    expect(first.checkouts).toEqual({ attempts: 0, hits: 0 });
+
+    const finisher = computePlayerStats(completedLegs, 12, options);
+    expect(finisher).toMatchObject({ legsWon: 1, turns: 1, dartsThrown: 2, pointsScored: 41, highestCheckout: 41 });
+    expect(finisher.checkouts).toEqual({ attempts: 1, hits: 1 });
+  });
+
+  it('keeps darts taken to win a leg with the team', () => {
+    const { completedLegs } = playLeg();
+
+    expect(computePlayerStats(completedLegs, 1, options).legsWonInDarts).toEqual([5]);
+    expect(computePlayerStats(completedLegs, 11, options).legsWonInDarts).toEqual([]);
+    expect(computePlayerStats(completedLegs, 12, options).legsWonInDarts).toEqual([]);
+  });
+
+  it('leaves a member who never threw out of the leg', () => {
+    const { completedLegs } = playLeg();
+
+    expect(computePlayerStats(completedLegs, 21, options)).toMatchObject({ legsPlayed: 1, legsWon: 0, dartsThrown: 3 });
+    expect(computePlayerStats(completedLegs, 22, options).legsPlayed).toBe(0);
+  });
+});
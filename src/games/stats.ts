@@ -0,0 +1,287 @@
+import { DartScore, GameMode, LegRecord, MatchRecord, Turn } from '../types/game';
+import { X01Options, X01Rule, satisfiesRule } from './x01';
+import { findCheckouts } from './checkout';
+import { hitsDouble } from './shared';
+import { seatTurns, seatsOf } from './teams';
+import { formatDart } from '../utils/dartboard/dartLabel';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+
+// Turns in the first-nine average
+const FIRST_NINE_TURNS = 3;
+
+// Turn scores counted as 60+, 100+, 140+ (up to 179) and maximums
+export const SCORE_BANDS = [60, 100, 140, 180] as const;
+
+export type ScoreBand = typeof SCORE_BANDS[number];
+
+// Starting scores grouped for checkout practice, by the top of each bracket
+export const FINISH_BRACKETS = [40, 80, 100, 130, 170] as const;
+
+export type FinishBracket = typeof FINISH_BRACKETS[number];
+
+export type AttemptCount = { attempts: number; hits: number };
+
+// Running totals for one player, over a leg, a match or a whole history.
+// Everything is a count, so totals add up and averages are worked out at the end.
+export type PlayerStats = {
+  legsPlayed: number;
+  legsWon: number;
+  turns: number;
+  dartsThrown: number;
+  pointsScored: number; // Busts score nothing
+  firstNineDarts: number;
+  firstNinePoints: number;
+  bestTurn: number;
+  busts: number;
+  marks: number; // Cricket
+  checkouts: AttemptCount; // Darts thrown with a one-dart finish on, and the ones that took the leg
+  doubles: Record<string, AttemptCount>; // The same by finishing double (D16, BULL, ...), and darts at doubles in practice
+  scoreBands: Record<ScoreBand, number>;
+  highestCheckout: number;
+  legsWonInDarts: number[]; // Darts each won leg took
+  legsWonInTime: number[]; // And how long it took, in ms, where the leg's start is known
+  legScores: number[]; // Points games: the score each leg ended on
+  finishAttempts: Record<FinishBracket, AttemptCount>; // Checkout practice: finishes tried and made, by starting score
+};
+
+export const createPlayerStats = (): PlayerStats => ({
+  legsPlayed: 0,
+  legsWon: 0,
+  turns: 0,
+  dartsThrown: 0,
+  pointsScored: 0,
+  firstNineDarts: 0,
+  firstNinePoints: 0,
+  bestTurn: 0,
+  busts: 0,
+  marks: 0,
+  checkouts: { attempts: 0, hits: 0 },
+  doubles: {},
+  scoreBands: { 60: 0, 100: 0, 140: 0, 180: 0 },
+  highestCheckout: 0,
+  legsWonInDarts: [],
+  legsWonInTime: [],
+  legScores: [],
+  finishAttempts: Object.fromEntries(
+    FINISH_BRACKETS.map(bracket => [bracket, { attempts: 0, hits: 0 }])
+  ) as Record<FinishBracket, AttemptCount>,
+});
+
+const addAttempts = (a: AttemptCount, b: AttemptCount): AttemptCount => ({
+  attempts: a.attempts + b.attempts,
+  hits: a.hits + b.hits,
+});
+
+export const combinePlayerStats = (stats: PlayerStats[]) =>
+  stats.reduce((total, next) => ({
+    legsPlayed: total.legsPlayed + next.legsPlayed,
+    legsWon: total.legsWon + next.legsWon,
+    turns: total.turns + next.turns,
+    dartsThrown: total.dartsThrown + next.dartsThrown,
+    pointsScored: total.pointsScored + next.pointsScored,
+    firstNineDarts: total.firstNineDarts + next.firstNineDarts,
+    firstNinePoints: total.firstNinePoints + next.firstNinePoints,
+    bestTurn: Math.max(total.bestTurn, next.bestTurn),
+    busts: total.busts + next.busts,
+    marks: total.marks + next.marks,
+    checkouts: addAttempts(total.checkouts, next.checkouts),
+    doubles: Object.entries(next.doubles).reduce(
+      (doubles, [label, count]) => ({
+        ...doubles,
+        [label]: addAttempts(doubles[label] ?? { attempts: 0, hits: 0 }, count),
+      }),
+      total.doubles
+    ),
+    scoreBands: Object.fromEntries(
+      SCORE_BANDS.map(band => [band, total.scoreBands[band] + next.scoreBands[band]])
+    ) as Record<ScoreBand, number>,
+    highestCheckout: Math.max(total.highestCheckout, next.highestCheckout),
+    legsWonInDarts: [...total.legsWonInDarts, ...next.legsWonInDarts],
+    legsWonInTime: [...total.legsWonInTime, ...next.legsWonInTime],
+    legScores: [...total.legScores, ...next.legScores],
+    finishAttempts: Object.fromEntries(
+      FINISH_BRACKETS.map(bracket => [bracket, addAttempts(total.finishAttempts[bracket], next.finishAttempts[bracket])])
+    ) as Record<FinishBracket, AttemptCount>,
+  }), createPlayerStats());
+
+// A typed-in total stands for a full turn of darts
+const dartsInTurn = (turn: Turn) => (turn.darts.some(dart => dart.isTotal) ? 3 : turn.darts.length);
+
+const pointsInTurn = (turn: Turn) => (turn.bust ? 0 : turn.score);
+
+// The band a turn score falls in, if any
+const scoreBand = (score: number) => [...SCORE_BANDS].reverse().find(band => score >= band);
+
+// The finishing dart for a score, when one dart can take it under the out-rule
+const oneDartFinishes = new Map<X01Rule, Map<number, DartScore>>();
+
+const oneDartFinish = (remaining: number, outRule: X01Rule) => {
+  if (!oneDartFinishes.has(outRule)) {
+    const finishes = new Map<number, DartScore>();
+    for (let score = 1; score <= 60; score++) {
+      const [route] = findCheckouts(score, 1, dart => satisfiesRule(outRule, dart));
+      if (route) finishes.set(score, route.darts[0]);
+    }
+    oneDartFinishes.set(outRule, finishes);
+  }
+  return oneDartFinishes.get(outRule).get(remaining);
+};
+
+const countDoubleAttempt = (stats: PlayerStats, double: DartScore, hit: boolean) => {
+  const label = formatDart(double);
+  stats.doubles[label] = addAttempts(stats.doubles[label] ?? { attempts: 0, hits: 0 }, {
+    attempts: 1,
+    hits: hit ? 1 : 0,
+  });
+};
+
+// X01 numbers for one player's turns in a leg. Other games count turns, darts, marks and darts at practice doubles.
+// `checkedOut` is whether the last of the turns won the leg; in team play a member can win a leg their partner finished.
+export const computeLegStats = (
+  turns: Turn[],
+  won: boolean,
+  options?: X01Options,
+  checkedOut = won
+): PlayerStats => {
+  const stats = createPlayerStats();
+  stats.legsPlayed = 1;
+  stats.legsWon = won ? 1 : 0;
+
+  turns.forEach((turn, index) => {
+    const darts = dartsInTurn(turn);
+    const points = pointsInTurn(turn);
+
+    stats.turns++;
+    stats.dartsThrown += darts;
+    stats.marks += turn.marks ?? 0;
+
+    // In doubles practice every dart of a turn is at the turn's double
+    if (turn.target !== undefined) {
+      const double = createDartScore(turn.target, 2);
+      turn.darts
+        .filter(dart => !dart.isTotal)
+        .forEach(dart => countDoubleAttempt(stats, double, hitsDouble(dart, turn.target)));
+    }
+
+    if (turn.checkoutAttempt) {
+      const { target, success } = turn.checkoutAttempt;
+      const bracket = FINISH_BRACKETS.find(top => target <= top) ?? FINISH_BRACKETS[FINISH_BRACKETS.length - 1];
+      stats.finishAttempts[bracket] = addAttempts(stats.finishAttempts[bracket], { attempts: 1, hits: success ? 1 : 0 });
+    }
+
+    if (!options) return;
+
+    stats.pointsScored += points;
+    stats.bestTurn = Math.max(stats.bestTurn, points);
+    if (turn.bust) stats.busts++;
+
+    if (index < FIRST_NINE_TURNS) {
+      stats.firstNineDarts += darts;
+      stats.firstNinePoints += points;
+    }
+
+    const band = scoreBand(points);
+    if (band) stats.scoreBands[band]++;
+
+    const finished = checkedOut && index === turns.length - 1;
+    if (finished) stats.highestCheckout = points;
+
+    // Walk the darts from the score the turn started on; a typed total hides which darts were at a double
+    if (turn.darts.some(dart => dart.isTotal)) return;
+
+    let remaining = turn.bust ? turn.remainingScore : turn.remainingScore + turn.score;
+    turn.darts.forEach(dart => {
+      const finish = oneDartFinish(remaining, options.outRule);
+      remaining -= dart.points;
+      if (!finish) return;
+
+      const hit = remaining === 0 && finished;
+      stats.checkouts = addAttempts(stats.checkouts, { attempts: 1, hits: hit ? 1 : 0 });
+
+      if (finish.multiplier === 2) countDoubleAttempt(stats, finish, hit);
+    });
+  });
+
+  if (won) stats.legsWonInDarts = [stats.dartsThrown];
+  if (!options && turns.length) stats.legScores = [turns[turns.length - 1].remainingScore];
+
+  return stats;
+};
+
+// A player's totals over some legs of a match, by seat id. A team member is credited with the turns they threw,
+// and with their team's wins; darts and time taken to win a leg stay with the team.
+export const computePlayerStats = (
+  legs: Pick<LegRecord, 'turns' | 'winnerId' | 'startedAt' | 'finishedAt'>[],
+  playerId: number,
+  options?: X01Options
+) => combinePlayerStats(
+  legs
+    .map(leg => ({ leg, thrown: seatTurns(leg, playerId) }))
+    .filter(({ thrown }) => thrown?.turns.length)
+    .map(({ leg, thrown: { sideId, turns } }) => {
+      const won = leg.winnerId === sideId;
+      const sideTurns = leg.turns[sideId];
+      const checkedOut = won && sideTurns[sideTurns.length - 1] === turns[turns.length - 1];
+      const stats = computeLegStats(turns, won, options, checkedOut);
+
+      if (sideId !== playerId) {
+        stats.legsWonInDarts = [];
+      } else if (won && leg.startedAt !== undefined) {
+        stats.legsWonInTime = [leg.finishedAt - leg.startedAt];
+      }
+
+      return stats;
+    })
+);
+
+// A profile's totals across every match of one game in the history (X01 by default)
+export const computeProfileStats = (matches: MatchRecord[], profileId: string, gameMode: GameMode = 'x01') =>
+  combinePlayerStats(
+    matches
+      .filter(match => match.gameMode === gameMode)
+      .flatMap(match => match.players
+        .flatMap(seatsOf)
+        .filter(player => player.profileId === profileId)
+        .map(player => computePlayerStats(
+          match.legs,
+          player.id,
+          gameMode === 'x01' ? match.gameOptions as X01Options : undefined
+        )))
+  );
+
+// 3-dart averages, and the other rates, with nothing thrown yet counting as zero
+export const threeDartAverage = (points: number, darts: number) => (darts ? (points / darts) * 3 : 0);
+
+export const hitRate = ({ attempts, hits }: AttemptCount) => (attempts ? (hits / attempts) * 100 : 0);
+
+// Every double attempt added together
+export const totalDoubles = ({ doubles }: PlayerStats) => Object.values(doubles).reduce(addAttempts, { attempts: 0, hits: 0 });
+
+export const totalFinishAttempts = ({ finishAttempts }: PlayerStats) =>
+  Object.values(finishAttempts).reduce(addAttempts, { attempts: 0, hits: 0 });
+
+// "41–80": the scores a finish bracket covers
+export const describeFinishBracket = (bracket: FinishBracket) => {
+  const index = FINISH_BRACKETS.indexOf(bracket);
+  return `${index ? FINISH_BRACKETS[index - 1] + 1 : 2}–${bracket}`;
+};
+
+export type LandedDart = DartScore & { position: { x: number; y: number } };
+
+// Darts with a recorded landing spot from the history, for one profile (or everyone) in legs finished since `since`
+export const collectLandedDarts = (
+  matches: MatchRecord[],
+  { profileId, since = 0 }: { profileId?: string; since?: number }
+): LandedDart[] => matches.flatMap(match => {
+  // A team's darts are gathered from its members, so a profile in a team finds just their own
+  const seats = match.players
+    .flatMap(player => (profileId ? seatsOf(player) : [player]))
+    .filter(player => !profileId || player.profileId === profileId)
+    .map(player => player.id);
+
+  return match.legs
+    .filter(leg => leg.finishedAt >= since)
+    .flatMap(leg => seats.flatMap(seat => seatTurns(leg, seat)?.turns ?? []))
+    .flatMap(turn => turn.darts)
+    .filter((dart): dart is LandedDart => Boolean(dart.position));
+});
@@ -0,0 +1,59 @@
+import { LegRecord, PlayerState, TeamMember, TeamRotation, Turn } from '../types/game';
+
+export const TEAM_ROTATIONS: TeamRotation[] = ['carryOn', 'restart'];
+
+export const TEAM_ROTATION_NAMES: Record<TeamRotation, string> = {
+  carryOn: 'Carry On',
+  restart: 'Restart Each Leg',
+};
+
+// League doubles: two teams, named A and B until they have members
+export const TEAM_COUNT = 2;
+
+export const isTeam = (player: PlayerState) => Boolean(player.members);
+
+// "Alice & Bob"
+export const teamName = (members: TeamMember[], index: number) =>
+  members.length ? members.map(member => member.name).join(' & ') : `Team ${String.fromCharCode(65 + index)}`;
+
+// The member throwing the team's current or next turn
+export const currentThrower = (player: PlayerState) => player.members?.[player.throwerIndex ?? 0];
+
+// The profile throwing for a side: a team's current thrower, or the player themselves
+export const throwingProfileId = (player: PlayerState) => (currentThrower(player) ?? player).profileId;
+
+// A side's seat and, for a team, each of its members': everyone with numbers of their own
+export const seatsOf = <T extends { id: number; name: string; members?: TeamMember[] }>(player: T) =>
+  [player, ...(player.members ?? [])] as { id: number; profileId?: string; name: string }[];
+
+// Credit a turn to the member who threw it, and pass the team's darts to the next member
+export const recordTurn = (player: PlayerState, turn: Turn): PlayerState => {
+  const thrower = currentThrower(player);
+  if (!thrower) return { ...player, history: [...player.history, turn] };
+
+  return {
+    ...player,
+    history: [...player.history, { ...turn, throwerId: thrower.id }],
+    throwerIndex: ((player.throwerIndex ?? 0) + 1) % player.members.length,
+  };
+};
+
+// The turns a seat threw in a leg: a player's own, or a member's share of their team's, with the team they threw for
+export const seatTurns = (leg: Pick<LegRecord, 'turns'>, seatId: number) => {
+  if (leg.turns[seatId]) return { sideId: seatId, turns: leg.turns[seatId] };
+
+  for (const [sideId, turns] of Object.entries(leg.turns)) {
+    const thrown = turns.filter(turn => turn.throwerId === seatId);
+    if (thrown.length) return { sideId: Number(sideId), turns: thrown };
+  }
+
+  return undefined;
+};
+
+// A seat id not yet taken by any side or team member
+export const nextSeatId = (players: PlayerState[]) =>
+  Math.max(0, ...players.flatMap(player => seatsOf(player).map(seat => seat.id))) + 1;
+
+// Teams take their members' names
+export const nameTeams = (players: PlayerState[]) =>
+  players.map((player, index) => (player.members ? { ...player, name: teamName(player.members, index) } : player));
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { PlayerState } from '../types/game';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+import { playTurn } from './index';
+import { X01Options, x01Rules } from './x01';
+
+const S = (segment: number) => createDartScore(segment, 1);
+const D = (segment: number) => createDartScore(segment, 2);
+const T = (segment: number) => createDartScore(segment, 3);
+
+const options = (overrides: Partial<X01Options> = {}): X01Options => ({ ...x01Rules.defaultOptions, ...overrides });
+
+const playerOn = (score: number, opts: X01Options): PlayerState => ({
+  id: 1,
+  name: 'A',
+  ...x01Rules.initialPlayerState(opts),
+  score,
+  initialScore: score,
+  dartsThrown: 0,
+  legsWon: 0,
+  setsWon: 0,
+  currentTurn: true,
+  history: [],
+});
+
+const play = (score: number, darts: ReturnType<typeof S>[], opts = options()) =>
+  playTurn(x01Rules, opts, [playerOn(score, opts)], 0, darts);
+
+describe('x01 scoring', () => {
+  it('takes each dart off the score', () => {
+    const { players, bust, legWinner } = play(501, [T(20), T(20), T(20)]);
+
+    expect(players[0].score).toBe(321);
+    expect(players[0].dartsThrown).toBe(3);
+    expect(bust).toBe(false);
+    expect(legWinner).toBeUndefined();
+  });
+
+  it('busts below zero and puts the score back to the start of the turn', () => {
+    const { players, bust, turnOver } = play(40, [S(20), T(20)]);
+
+    expect(bust).toBe(true);
+    expect(turnOver).toBe(true);
+    expect(players[0].score).toBe(40);
+    expect(players[0].dartsThrown).toBe(2);
+  });
+
+  it('busts on a remainder of one under double out', () => {
+    expect(play(21, [S(20)]).bust).toBe(true);
+    expect(play(21, [S(20)], options({ outRule: 'straight' })).bust).toBe(false);
+  });
+
+  it('only finishes on a dart the out-rule allows', () => {
+    expect(play(20, [S(20)]).bust).toBe(true);
+    expect(play(40, [D(20)]).legWinner).toBe(0);
+    expect(play(50, [createDartScore(25, 2)]).legWinner).toBe(0);
+    expect(play(60, [T(20)], options({ outRule: 'master' })).legWinner).toBe(0);
+    expect(play(20, [S(20)], options({ outRule: 'straight' })).legWinner).toBe(0);
+  });
+
+  it('stops scoring at the finishing dart', () => {
+    const { players, legWinner } = play(32, [D(16), S(20)]);
+
+    expect(legWinner).toBe(0);
+    expect(players[0].score).toBe(0);
+    expect(players[0].dartsThrown).toBe(1);
+  });
+
+  it('scores nothing until a dart meets the in-rule', () => {
+    const opts = options({ inRule: 'double' });
+    const { players } = playTurn(x01Rules, opts, [playerOn(501, opts)], 0, [S(20), D(10), S(20)]);
+
+    expect(players[0].score).toBe(461);
+    expect(players[0].checkedIn).toBe(true);
+  });
+});
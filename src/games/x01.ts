@@ -0,0 +1,131 @@
+import { DartScore, PlayerState } from '../types/game';
+import { GameRules, RulesContext, SuggestionContext } from '../types/rules';
+import { formatDart } from '../utils/dartboard/dartLabel';
+import { wonMatchFormat, sumPoints, updatePlayer } from './shared';
+import { suggestCheckout } from './checkout';
+
+// Which darts may open or finish a leg: any dart, doubles only, or doubles and trebles
+export type X01Rule = 'straight' | 'double' | 'master';
+
+export type X01Options = {
+  startScore: number;
+  inRule: X01Rule;
+  outRule: X01Rule;
+};
+
+export const X01_START_SCORES = [301, 501, 701, 1001];
+export const X01_RULES: X01Rule[] = ['straight', 'double', 'master'];
+
+// The bullseye counts as a double. A typed-in turn total is taken at the scorer's word.
+const RULE_MULTIPLIERS: Record<X01Rule, number[]> = {
+  straight: [1, 2, 3],
+  double: [2],
+  master: [2, 3],
+};
+
+export const satisfiesRule = (rule: X01Rule, dart: DartScore) =>
+  dart.points > 0 && (dart.isTotal || RULE_MULTIPLIERS[rule].includes(dart.multiplier));
+
+export const X01_RULE_NAMES: Record<X01Rule, string> = {
+  straight: 'Straight',
+  double: 'Double',
+  master: 'Master',
+};
+
+const applyDart = ({ players, playerIndex, options }: RulesContext<X01Options>, dart: DartScore) => {
+  const player = players[playerIndex];
+  
+  // Nothing scores until a dart meets the in-rule
+  if (!player.checkedIn && !satisfiesRule(options.inRule, dart)) {
+    return { players, bust: false };
+  }
+  
+  const newScore = player.score - dart.points;
+  
+  // Check if bust (score < 0, a finish the out-rule doesn't allow, or a remainder it can't finish)
+  const isBust = newScore < 0 
+    || (newScore === 0 && !satisfiesRule(options.outRule, dart))
+    || (newScore === 1 && options.outRule !== 'straight');
+  
+  if (isBust) {
+    return { players, bust: true };
+  }
+  
+  return { players: updatePlayer(players, playerIndex, { score: newScore, checkedIn: true }), bust: false };
+};
+
+const endTurn = (
+  { players, playerIndex }: RulesContext<X01Options>,
+  darts: DartScore[],
+  bust: boolean,
+  turnStartPlayers: PlayerState[]
+) => {
+  const startScore = turnStartPlayers[playerIndex].score;
+  
+  return {
+    players,
+    turn: {
+      darts: [...darts],
+      // Darts thrown before checking in don't count towards the turn
+      score: bust ? sumPoints(darts) : startScore - players[playerIndex].score,
+      remainingScore: bust ? startScore : players[playerIndex].score,
+      bust,
+    },
+  };
+};
+
+const suggestTargets = ({ 
+  players, 
+  playerIndex, 
+  options, 
+  dartsRemaining, 
+  checkoutPreferences 
+}: SuggestionContext<X01Options>) => {
+  const player = players[playerIndex];
+  
+  if (!player.checkedIn) {
+    return { title: `${X01_RULE_NAMES[options.inRule]} In`, darts: [options.inRule === 'master' ? 'T20' : 'D20'] };
+  }
+  
+  // Routes are worked out for the darts left in this turn, under the out-rule
+  const route = suggestCheckout(
+    player.score, 
+    dartsRemaining, 
+    dart => satisfiesRule(options.outRule, dart), 
+    checkoutPreferences
+  );
+  if (!route) return undefined;
+  
+  return {
+    title: route.finishes ? 'Checkout Suggestion' : `Setup · Leave ${route.leave}`,
+    darts: route.darts.map(formatDart),
+  };
+};
+
+const getLabel = ({ startScore, inRule, outRule }: X01Options) => {
+  const parts = [startScore.toString()];
+  
+  // Straight in and double out are the standard game, so only call out the variations
+  if (inRule !== 'straight') parts.push(`${X01_RULE_NAMES[inRule]} In`);
+  if (outRule !== 'double') parts.push(`${X01_RULE_NAMES[outRule]} Out`);
+  
+  return parts.join(' ');
+};
+
+export const x01Rules: GameRules<X01Options> = {
+  id: 'x01',
+  name: 'X01',
+  defaultOptions: { startScore: 501, inRule: 'straight', outRule: 'double' },
+  scoreKind: 'remaining',
+  getLabel,
+  initialPlayerState: ({ startScore, inRule }) => ({ 
+    score: startScore, 
+    initialScore: startScore, 
+    checkedIn: inRule === 'straight' 
+  }),
+  applyDart,
+  endTurn,
+  getLegWinner: ({ players, playerIndex }) => (players[playerIndex].score === 0 ? playerIndex : undefined),
+  isMatchWon: wonMatchFormat,
+  suggestTargets,
+};
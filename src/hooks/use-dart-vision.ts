@@ -0,0 +1,267 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Point } from "../utils/dartboard/boardGeometry";
+import {
+  CALIBRATION_POINTS_REQUIRED,
+  Calibration,
+  DartDetection,
+  MissDetection,
+  Size,
+  VisionEvent,
+  VisionRequest
+} from "../vision/protocol";
+
+const WS_URL = 'wss://localhost:8081'; // The secure local relay server the phone camera streams through
+const CALIBRATION_STORAGE_KEY = 'dartboardCalibration';
+
+const loadCalibration = (): Calibration | undefined => {
+  const saved = localStorage.getItem(CALIBRATION_STORAGE_KEY);
+  if (!saved) return undefined;
+
+  try {
+    const calibration = JSON.parse(saved) as Calibration;
+    if (calibration.imagePoints && calibration.worldPoints && calibration.homographyMatrix) return calibration;
+    console.warn('Stored calibration data is invalid.');
+  } catch (e) {
+    console.error('Failed to parse stored calibration:', e);
+  }
+
+  localStorage.removeItem(CALIBRATION_STORAGE_KEY);
+  return undefined;
+};
+
+export type BoardMotion = 'still' | 'moving';
+
+// The camera stream, run through the vision worker. Frames go to the worker one at a time, dropping any that
+// arrive while it is busy; what it sees comes back as callbacks and state, and its view is drawn on `canvasRef`.
+export const useDartVision = ({
+  onDartDetected,
+  onMiss,
+  onTakeout
+}: {
+  onDartDetected: (detection: DartDetection) => void;
+  onMiss?: (miss: MissDetection) => void;
+  onTakeout?: () => void;
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const workerRef = useRef<Worker>();
+  const socketRef = useRef<WebSocket | null>(null);
+  const frameInFlightRef = useRef(false);
+  const callbacksRef = useRef({ onDartDetected, onMiss, onTakeout }); // Latest callbacks, so the worker handler can stay put
+  const clickedPointsRef = useRef<Point[]>([]);
+
+  const [visionReady, setVisionReady] = useState(false);
+  const [isConnected, setIsConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sourceSize, setSourceSize] = useState<Size>({ width: 640, height: 480 });
+  const [calibration, setCalibration] = useState(loadCalibration);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [clickedPoints, setClickedPoints] = useState<Point[]>([]);
+  const [motion, setMotion] = useState<BoardMotion>();
+
+  const postToWorker = useCallback((request: VisionRequest, transfer: Transferable[] = []) => {
+    workerRef.current?.postMessage(request, transfer);
+  }, []);
+
+  useEffect(() => {
+    callbacksRef.current = { onDartDetected, onMiss, onTakeout };
+  }, [onDartDetected, onMiss, onTakeout]);
+
+  useEffect(() => {
+    clickedPointsRef.current = clickedPoints;
+  }, [clickedPoints]);
+
+  // Draw the worker's view, with any calibration points picked so far on top
+  const drawPreview = useCallback((preview: ImageBitmap) => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+
+    if (context) {
+      if (canvas.width !== preview.width || canvas.height !== preview.height) {
+        canvas.width = preview.width;
+        canvas.height = preview.height;
+      }
+      context.drawImage(preview, 0, 0);
+
+      clickedPointsRef.current.forEach((point, index) => {
+        context.fillStyle = 'rgba(255, 255, 0, 0.7)';
+        context.beginPath();
+        context.arc(point.x, point.y, 5, 0, 2 * Math.PI);
+        context.fill();
+        context.fillStyle = 'black';
+        context.fillText(`${index + 1}`, point.x + 7, point.y + 3);
+      });
+    }
+
+    preview.close();
+  }, []);
+
+  // The worker lives as long as the view
+  useEffect(() => {
+    const worker = new Worker(new URL('../vision/visionWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    worker.onmessage = ({ data: event }: MessageEvent<VisionEvent>) => {
+      switch (event.type) {
+        case 'ready':
+          setVisionReady(true);
+          break;
+        case 'frameDone':
+          frameInFlightRef.current = false;
+          if (event.sourceSize) setSourceSize(event.sourceSize);
+          if (event.preview) drawPreview(event.preview);
+          break;
+        case 'motionStart':
+          setMotion('moving');
+          break;
+        case 'settle':
+          setMotion('still');
+          break;
+        case 'dartDetected':
+          callbacksRef.current.onDartDetected(event.detection);
+          break;
+        case 'miss':
+          callbacksRef.current.onMiss?.(event.miss);
+          break;
+        case 'takeout':
+          callbacksRef.current.onTakeout?.();
+          break;
+        case 'calibrated':
+          setCalibration(event.calibration);
+          localStorage.setItem(CALIBRATION_STORAGE_KEY, JSON.stringify(event.calibration));
+          setIsCalibrating(false);
+          setClickedPoints([]);
+          setError(null);
+          break;
+        case 'calibrationLost':
+          setCalibration(undefined);
+          localStorage.removeItem(CALIBRATION_STORAGE_KEY);
+          setIsCalibrating(false);
+          setClickedPoints([]);
+          setMotion(undefined);
+          setError(event.reason);
+          break;
+        case 'error':
+          // A failed calibration can be picked again
+          setClickedPoints(points => (points.length === CALIBRATION_POINTS_REQUIRED ? [] : points));
+          setError(event.message);
+          break;
+      }
+    };
+
+    const saved = loadCalibration();
+    if (saved) postToWorker({ type: 'calibration', calibration: saved });
+
+    return () => {
+      worker.terminate();
+      workerRef.current = undefined;
+      frameInFlightRef.current = false;
+    };
+  }, [drawPreview, postToWorker]);
+
+  // The worker shows the camera's own view while points are being picked
+  useEffect(() => {
+    postToWorker({ type: 'calibrating', calibrating: isCalibrating });
+  }, [isCalibrating, postToWorker]);
+
+  // --- WebSocket Handling ---
+  const connect = useCallback(() => {
+    if (socketRef.current && socketRef.current.readyState === WebSocket.OPEN) return;
+
+    setError(null);
+    const socket = new WebSocket(WS_URL);
+    socket.binaryType = 'arraybuffer';
+    socketRef.current = socket;
+
+    socket.onopen = () => {
+      try {
+        socket.send(JSON.stringify({ type: 'client-init' }));
+        setIsConnected(true);
+        setError(null);
+      } catch (e) {
+        console.error('Failed to send client handshake:', e);
+        setError('Failed to send handshake to server.');
+        socket.close();
+      }
+    };
+
+    socket.onclose = () => {
+      setIsConnected(false);
+      setError('Camera stream disconnected. Ensure phone sender is running and connected.');
+    };
+
+    socket.onerror = (event) => {
+      console.error('WebSocket Error:', event);
+      setIsConnected(false);
+      setError('WebSocket connection error. Is the camera-stream-server.js running?');
+    };
+
+    // JPEG frames go straight to the worker, which decodes them; frames that arrive while it's busy are dropped
+    socket.onmessage = (event) => {
+      if (!(event.data instanceof ArrayBuffer) || !workerRef.current || frameInFlightRef.current) return;
+
+      frameInFlightRef.current = true;
+      postToWorker({ type: 'frame', frame: event.data }, [event.data]);
+    };
+  }, [postToWorker]);
+
+  useEffect(() => {
+    connect();
+    return () => socketRef.current?.close();
+  }, [connect]);
+
+  // --- Calibration ---
+  const startCalibration = () => {
+    if (!isConnected) {
+      setError('Connect to camera stream before calibrating.');
+      return;
+    }
+    setClickedPoints([]);
+    setIsCalibrating(true);
+    setError(null);
+  };
+
+  const cancelCalibration = () => {
+    setIsCalibrating(false);
+    setClickedPoints([]);
+    setError(null);
+  };
+
+  const resetCalibration = () => {
+    setCalibration(undefined);
+    localStorage.removeItem(CALIBRATION_STORAGE_KEY);
+    postToWorker({ type: 'calibration', calibration: undefined });
+    setMotion(undefined);
+    setError(null);
+    setClickedPoints([]);
+    setIsCalibrating(false);
+  };
+
+  // A point picked on the camera view, in its pixels; the last one works out the calibration
+  const pickCalibrationPoint = (point: Point) => {
+    if (!isCalibrating || clickedPoints.length >= CALIBRATION_POINTS_REQUIRED) return;
+
+    const points = [...clickedPoints, point];
+    setClickedPoints(points);
+
+    if (points.length === CALIBRATION_POINTS_REQUIRED) {
+      postToWorker({ type: 'calibrate', imagePoints: points });
+    }
+  };
+
+  return {
+    canvasRef,
+    visionReady,
+    isConnected,
+    error,
+    sourceSize,
+    calibration,
+    isCalibrating,
+    clickedPoints,
+    motion,
+    connect,
+    startCalibration,
+    cancelCalibration,
+    resetCalibration,
+    pickCalibrationPoint,
+  };
+};
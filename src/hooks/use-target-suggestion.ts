@@ -0,0 +1,34 @@
+import { useMemo } from "react";
+import { useGameStore } from "../store/gameStore";
+import { useProfileStore } from "../store/profileStore";
+import { getGameRules } from "../games";
+import { throwingProfileId } from "../games/teams";
+
+// The current player's suggested targets, worked out again only when a dart lands or the turn changes
+export const useTargetSuggestion = () => {
+  const {
+    players,
+    currentPlayerIndex,
+    gameMode,
+    gameOptions,
+    dartsRemaining,
+    currentTurnBust,
+    gameFinished
+  } = useGameStore();
+  const player = players[currentPlayerIndex];
+  const profile = useProfileStore(state => state.getProfile(player && throwingProfileId(player)));
+  const checkoutPreferences = profile?.checkoutPreferences;
+
+  return useMemo(() => {
+    // Nothing left to aim at once the turn is over
+    if (!players.length || gameFinished || !dartsRemaining || currentTurnBust) return undefined;
+
+    return getGameRules(gameMode).suggestTargets({
+      players,
+      playerIndex: currentPlayerIndex,
+      options: gameOptions,
+      dartsRemaining,
+      checkoutPreferences,
+    });
+  }, [players, currentPlayerIndex, gameMode, gameOptions, dartsRemaining, currentTurnBust, gameFinished, checkoutPreferences]);
+};
@@ -0,0 +1,142 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import PlayerAvatar from "../components/PlayerAvatar";
+import PlayerStatsTable from "../components/PlayerStatsTable";
+import { listMatches, listMatchesForProfile } from "../store/matchHistory";
+import { useProfileStore } from "../store/profileStore";
+import { GAME_RULES, getGameRules } from "../games";
+import { describeMatchFormat } from "../games/matchFormat";
+import { computeProfileStats } from "../games/stats";
+import { GameMode } from "../types/game";
+import { ArrowLeft, Crosshair, Trophy } from "lucide-react";
+
+const ALL_MODES = 'all';
+const ALL_PLAYERS = 'all';
+
+const History = () => {
+  const navigate = useNavigate();
+  const [modeFilter, setModeFilter] = useState(ALL_MODES);
+  const [profileFilter, setProfileFilter] = useState(ALL_PLAYERS);
+  const { profiles } = useProfileStore();
+
+  const { data: matches = [], isLoading, error } = useQuery({
+    queryKey: ['matches', { profileId: profileFilter }],
+    queryFn: () => profileFilter === ALL_PLAYERS ? listMatches() : listMatchesForProfile(profileFilter),
+  });
+
+  const filteredMatches = useMemo(
+    () => matches.filter(match => modeFilter === ALL_MODES || match.gameMode === modeFilter),
+    [matches, modeFilter]
+  );
+
+  // Career numbers for the chosen player, from their matches of the chosen game (X01 when showing every game)
+  const careerMode = modeFilter === ALL_MODES ? 'x01' : modeFilter as GameMode;
+  const profileStats = useMemo(
+    () => profileFilter === ALL_PLAYERS ? undefined : computeProfileStats(filteredMatches, profileFilter, careerMode),
+    [filteredMatches, profileFilter, careerMode]
+  );
+  const selectedProfile = profiles.find(profile => profile.id === profileFilter);
+
+  return (
+    <div className="container px-4 py-6 max-w-3xl mx-auto space-y-4">
+      <header className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/")} title="Back to game">
+          <ArrowLeft size={18} />
+        </Button>
+        <h1 className="text-2xl font-bold">Match History</h1>
+        <Button variant="outline" size="sm" className="ml-auto" onClick={() => navigate("/analysis")}>
+          <Crosshair size={16} className="mr-2" />
+          Throw Analysis
+        </Button>
+      </header>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Select value={modeFilter} onValueChange={setModeFilter}>
+          <SelectTrigger className="sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_MODES}>All games</SelectItem>
+            {Object.values(GAME_RULES).map(rules => (
+              <SelectItem key={rules.id} value={rules.id}>{rules.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={profileFilter} onValueChange={setProfileFilter}>
+          <SelectTrigger className="sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_PLAYERS}>All players</SelectItem>
+            {profiles.map(profile => (
+              <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading && <p className="text-center text-muted-foreground">Loading matches...</p>}
+
+      {error && <p className="text-center text-destructive">Could not load the match history.</p>}
+
+      {!isLoading && !error && !filteredMatches.length && (
+        <p className="text-center text-muted-foreground">
+          {matches.length ? "No matches match these filters." : "No finished matches yet."}
+        </p>
+      )}
+
+      {profileStats?.legsPlayed > 0 && selectedProfile && (
+        <Card>
+          <CardContent className="p-4 space-y-2">
+            <div className="flex items-center gap-2 font-medium">
+              <PlayerAvatar profileId={selectedProfile.id} name={selectedProfile.name} className="h-6 w-6 text-xs" />
+              {selectedProfile.name} · {GAME_RULES[careerMode].name} career
+            </div>
+            <PlayerStatsTable
+              gameMode={careerMode}
+              columns={[{ key: selectedProfile.id, label: "All matches", stats: profileStats }]}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-3">
+        {filteredMatches.map(match => (
+          <Card
+            key={match.id}
+            className="cursor-pointer transition-colors hover:border-primary"
+            onClick={() => navigate(`/history/${match.id}`)}
+          >
+            <CardContent className="p-4 space-y-2">
+              <div className="flex justify-between items-center">
+                <div className="font-medium">{getGameRules(match.gameMode).getLabel(match.gameOptions)}</div>
+                <div className="text-xs text-muted-foreground">{format(match.finishedAt, "d MMM yyyy, HH:mm")}</div>
+              </div>
+              <div className="text-xs text-muted-foreground">{describeMatchFormat(match.matchFormat)}</div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                {match.players.map(player => (
+                  <span key={player.id} className="flex items-center gap-1">
+                    <PlayerAvatar profileId={player.profileId} name={player.name} className="h-5 w-5 text-[10px]" />
+                    {player.id === match.winnerId && <Trophy size={14} className="text-yellow-500" />}
+                    <span className={player.id === match.winnerId ? "font-bold" : ""}>{player.name}</span>
+                    <span className="text-muted-foreground">
+                      {match.matchFormat.type === 'sets' ? player.setsWon : player.legsWon}
+                    </span>
+                  </span>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -5,9 +5,11 @@ import GameControls from "../components/GameControls";
 import PlayerScores from "../components/PlayerScores";
 import GameFinished from "../components/GameFinished";
 import DartDetector from '../components/DartDetector';
+import ResumeMatch from "../components/ResumeMatch";
+import { MISS } from "../utils/dartboard/boardGeometry";
 
 const GameScreen = () => {
-  const { gameFinished, getCurrentPlayer } = useGameStore();
+  const { gameFinished, getCurrentPlayer, queueDetectedDart, registerTakeout } = useGameStore();
   const currentPlayer = getCurrentPlayer();
   
   return (
@@ -34,10 +36,17 @@ const GameScreen = () => {
           <GameControls />
 
           {/* Add the Dart Detector Component */} 
-          <DartDetector onDetectionUpdate={(scores) => {
-            // TODO: Handle the detected scores (e.g., update game state)
-            console.log("Detected scores:", scores);
-          }} />
+          <DartDetector
+            onDartDetected={({ dart, confidence, candidates }) => {
+              // Detections go through the review queue; confident ones commit straight away
+              queueDetectedDart({ dart, confidence, candidates });
+            }}
+            onMiss={({ reason, confidence, candidates, unconfirmed }) => {
+              // Misses still use up one of the turn's darts, once confirmed
+              queueDetectedDart({ dart: candidates?.[0].dart ?? MISS, confidence, candidates, miss: reason, unconfirmed });
+            }}
+            onTakeout={registerTakeout}
+          />
           
           {/* Game finished overlay */}
           {gameFinished && (
@@ -52,7 +61,9 @@ const GameScreen = () => {
 };
 
 const Index = () => {
-  const { gameStarted } = useGameStore();
+  const { gameStarted, resumeAvailable } = useGameStore();
+  
+  if (resumeAvailable) return <ResumeMatch />;
   
   return gameStarted ? <GameScreen /> : <GameSetup />;
 };
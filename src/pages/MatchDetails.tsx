@@ -0,0 +1,79 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import MatchScoresheet from "../components/MatchScoresheet";
+import MatchStats from "../components/MatchStats";
+import { getMatch } from "../store/matchHistory";
+import { getGameRules } from "../games";
+import { describeMatchFormat } from "../games/matchFormat";
+import { ArrowLeft } from "lucide-react";
+
+const MatchDetails = () => {
+  const navigate = useNavigate();
+  const matchId = Number(useParams().matchId);
+
+  const { data: match, isLoading } = useQuery({
+    queryKey: ['matches', matchId],
+    queryFn: () => getMatch(matchId),
+  });
+
+  return (
+    <div className="container px-4 py-6 max-w-3xl mx-auto space-y-4">
+      <header className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/history")} title="Back to history">
+          <ArrowLeft size={18} />
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold">
+            {match ? getGameRules(match.gameMode).getLabel(match.gameOptions) : "Match"}
+          </h1>
+          {match && (
+            <p className="text-sm text-muted-foreground">
+              {describeMatchFormat(match.matchFormat)} · {format(match.startedAt, "d MMM yyyy, HH:mm")}
+            </p>
+          )}
+        </div>
+      </header>
+
+      {isLoading && <p className="text-center text-muted-foreground">Loading match...</p>}
+
+      {!isLoading && !match && (
+        <p className="text-center text-muted-foreground">This match is not in the history.</p>
+      )}
+
+      {match && (
+        <>
+          {/* Final score, in player order */}
+          <div className="text-center font-bold">
+            {match.players.map(player => `${player.name} ${
+              match.matchFormat.type === 'sets' ? player.setsWon : player.legsWon
+            }`).join(' – ')}
+          </div>
+          <Card>
+            <CardHeader className="py-3">
+              <CardTitle className="text-base">Statistics</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <MatchStats
+                gameMode={match.gameMode}
+                gameOptions={match.gameOptions}
+                players={match.players}
+                legs={match.legs}
+                playsSets={match.matchFormat.type === 'sets'}
+              />
+            </CardContent>
+          </Card>
+          <MatchScoresheet
+            players={match.players}
+            legs={match.legs}
+            playsSets={match.matchFormat.type === 'sets'}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MatchDetails;
@@ -0,0 +1,156 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { subDays } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import BoardHeatmap from "../components/BoardHeatmap";
+import { listMatches, listMatchesForProfile } from "../store/matchHistory";
+import { useProfileStore } from "../store/profileStore";
+import { collectLandedDarts } from "../games/stats";
+import { analyseGrouping } from "../utils/dartboard/grouping";
+import { targetCentre } from "../utils/dartboard/boardGeometry";
+import { createDartScore } from "../utils/dartboard/scoreCalculator";
+import { formatDart } from "../utils/dartboard/dartLabel";
+import { ArrowLeft } from "lucide-react";
+
+const ALL_PLAYERS = 'all';
+const ANYWHERE = 'anywhere';
+
+// Darts landing this close to a target's centre are taken as thrown at it
+const TARGET_REACH_MM = 30;
+
+const TARGETS = [
+  createDartScore(25, 2),
+  ...Array.from({ length: 20 }, (_, i) => createDartScore(20 - i, 3)),
+  ...Array.from({ length: 20 }, (_, i) => createDartScore(20 - i, 2)),
+];
+
+const TIME_RANGES: { value: string; label: string; days?: number }[] = [
+  { value: 'all', label: "All time" },
+  { value: '7', label: "Last 7 days", days: 7 },
+  { value: '30', label: "Last 30 days", days: 30 },
+  { value: '90', label: "Last 90 days", days: 90 },
+];
+
+// "3.2 mm left", "0.4 mm low"
+const describeOffset = (mm: number, negative: string, positive: string) =>
+  `${Math.abs(mm).toFixed(1)} mm ${mm < 0 ? negative : positive}`;
+
+const ThrowAnalysis = () => {
+  const navigate = useNavigate();
+  const { profiles } = useProfileStore();
+  const [profileFilter, setProfileFilter] = useState(ALL_PLAYERS);
+  const [targetFilter, setTargetFilter] = useState(ANYWHERE);
+  const [rangeFilter, setRangeFilter] = useState(TIME_RANGES[0].value);
+
+  const { data: matches = [], isLoading } = useQuery({
+    queryKey: ['matches', { profileId: profileFilter }],
+    queryFn: () => profileFilter === ALL_PLAYERS ? listMatches() : listMatchesForProfile(profileFilter),
+  });
+
+  const target = TARGETS.find(dart => formatDart(dart) === targetFilter);
+  const centre = target && targetCentre(target);
+
+  const positions = useMemo(() => {
+    const days = TIME_RANGES.find(range => range.value === rangeFilter)?.days;
+    const darts = collectLandedDarts(matches, {
+      profileId: profileFilter === ALL_PLAYERS ? undefined : profileFilter,
+      since: days ? subDays(Date.now(), days).getTime() : 0,
+    });
+
+    return darts
+      .map(dart => dart.position)
+      .filter(position => !centre || Math.hypot(position.x - centre.x, position.y - centre.y) <= TARGET_REACH_MM);
+  }, [matches, profileFilter, rangeFilter, centre]);
+
+  const grouping = useMemo(() => analyseGrouping(positions, centre), [positions, centre]);
+
+  return (
+    <div className="container px-4 py-6 max-w-3xl mx-auto space-y-4">
+      <header className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/history")} title="Back to history">
+          <ArrowLeft size={18} />
+        </Button>
+        <h1 className="text-2xl font-bold">Throw Analysis</h1>
+      </header>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Select value={profileFilter} onValueChange={setProfileFilter}>
+          <SelectTrigger className="sm:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_PLAYERS}>All players</SelectItem>
+            {profiles.map(profile => (
+              <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={targetFilter} onValueChange={setTargetFilter}>
+          <SelectTrigger className="sm:w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANYWHERE}>Whole board</SelectItem>
+            {TARGETS.map(dart => (
+              <SelectItem key={formatDart(dart)} value={formatDart(dart)}>{formatDart(dart)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={rangeFilter} onValueChange={setRangeFilter}>
+          <SelectTrigger className="sm:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TIME_RANGES.map(range => (
+              <SelectItem key={range.value} value={range.value}>{range.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading && <p className="text-center text-muted-foreground">Loading matches...</p>}
+
+      {!isLoading && (
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            <BoardHeatmap positions={positions} target={centre} grouping={grouping} />
+
+            {!positions.length && (
+              <p className="text-center text-sm text-muted-foreground">
+                No darts with a recorded landing spot match these filters.
+              </p>
+            )}
+
+            {grouping && (
+              <div className="grid grid-cols-2 gap-y-1 text-sm">
+                <div className="text-muted-foreground">Darts</div>
+                <div className="text-right font-medium">{grouping.count}</div>
+
+                <div className="text-muted-foreground">
+                  {target ? `Mean point vs ${formatDart(target)}` : "Mean point vs bull"}
+                </div>
+                <div className="text-right font-medium">
+                  {describeOffset(grouping.bias.x, "left", "right")}, {describeOffset(grouping.bias.y, "high", "low")}
+                </div>
+
+                <div className="text-muted-foreground">Spread (1σ ellipse)</div>
+                <div className="text-right font-medium">
+                  {grouping.spread.major.toFixed(1)} × {grouping.spread.minor.toFixed(1)} mm
+                </div>
+
+                <div className="text-muted-foreground">Radial spread</div>
+                <div className="text-right font-medium">{grouping.radialSpread.toFixed(1)} mm</div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ThrowAnalysis;
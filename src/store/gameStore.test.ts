@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PlayerProfile } from '../types/profile';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+import { AUTO_COMMIT_OFF, useGameStore } from './gameStore';
+
+// The store saves itself to localStorage, which isn't there outside the browser
+vi.hoisted(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+});
+
+const profile = (id: string, name: string): PlayerProfile => ({
+  id,
+  name,
+  color: '#3b82f6',
+  throwingHand: 'right',
+  createdAt: 0,
+});
+
+const T20 = createDartScore(20, 3);
+
+// A fresh two-player X01 match, passing turns on by hand
+const startMatch = () => {
+  useGameStore.setState(useGameStore.getInitialState(), true);
+
+  const { addPlayer, setTurnAdvance, startGame } = useGameStore.getState();
+  addPlayer(profile('a', 'A'));
+  addPlayer(profile('b', 'B'));
+  setTurnAdvance({ mode: 'manual' });
+  startGame();
+};
+
+describe('camera review queue', () => {
+  beforeEach(startMatch);
+
+  it('commits detections at or above the auto-accept threshold', () => {
+    const { setAutoCommitConfidence, queueDetectedDart } = useGameStore.getState();
+    setAutoCommitConfidence(0.9);
+    queueDetectedDart({ dart: T20, confidence: 0.95 });
+
+    const { pendingDarts, currentTurn } = useGameStore.getState();
+    expect(pendingDarts).toHaveLength(0);
+    expect(currentTurn).toEqual([T20]);
+  });
+
+  it('holds back even a certain detection once auto-accept is off', () => {
+    const { setAutoCommitConfidence, queueDetectedDart } = useGameStore.getState();
+    setAutoCommitConfidence(AUTO_COMMIT_OFF);
+    queueDetectedDart({ dart: T20, confidence: 1 });
+
+    const { pendingDarts, currentTurn } = useGameStore.getState();
+    expect(pendingDarts.map(pending => pending.confidence)).toEqual([1]);
+    expect(currentTurn).toHaveLength(0);
+  });
+});
+
+describe('turn advance', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    startMatch();
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  const throwTurn = () => [T20, T20, T20].forEach(dart => useGameStore.getState().registerDart(dart));
+
+  it('passes the turn on straight away in immediate mode', () => {
+    useGameStore.getState().setTurnAdvance({ mode: 'immediate' });
+    throwTurn();
+
+    expect(useGameStore.getState().currentPlayerIndex).toBe(1);
+    expect(useGameStore.getState().turnAdvanceDueAt).toBeUndefined();
+  });
+
+  it('counts down before passing the turn on in delayed mode', () => {
+    useGameStore.getState().setTurnAdvance({ mode: 'delayed', delaySeconds: 3 });
+    throwTurn();
+
+    expect(useGameStore.getState().turnAdvanceDueAt).toBe(Date.now() + 3000);
+
+    vi.advanceTimersByTime(2999);
+    expect(useGameStore.getState().currentPlayerIndex).toBe(0);
+
+    vi.advanceTimersByTime(1);
+    expect(useGameStore.getState().currentPlayerIndex).toBe(1);
+    expect(useGameStore.getState().turnAdvanceDueAt).toBeUndefined();
+  });
+
+  it('waits for the next player to be called in manual mode', () => {
+    throwTurn();
+    vi.advanceTimersByTime(60_000);
+
+    expect(useGameStore.getState().currentPlayerIndex).toBe(0);
+    expect(useGameStore.getState().turnAdvanceDueAt).toBeUndefined();
+
+    useGameStore.getState().endTurn();
+    expect(useGameStore.getState().currentPlayerIndex).toBe(1);
+  });
+
+  it('starts the countdown again when a saved match is resumed', () => {
+    useGameStore.getState().setTurnAdvance({ mode: 'delayed', delaySeconds: 3 });
+    throwTurn();
+
+    // Reloaded: the countdown isn't saved, and its timer went with the page
+    vi.clearAllTimers();
+    useGameStore.setState({ turnAdvanceDueAt: undefined, resumeAvailable: true });
+
+    useGameStore.getState().resumeMatch();
+    expect(useGameStore.getState().turnAdvanceDueAt).toBe(Date.now() + 3000);
+
+    vi.advanceTimersByTime(3000);
+    expect(useGameStore.getState().currentPlayerIndex).toBe(1);
+  });
+
+  it('hands over again when the last dart of a turn is redone', () => {
+    useGameStore.getState().setTurnAdvance({ mode: 'delayed', delaySeconds: 3 });
+    throwTurn();
+
+    useGameStore.getState().undo();
+    expect(useGameStore.getState().turnAdvanceDueAt).toBeUndefined();
+
+    useGameStore.getState().redo();
+    expect(useGameStore.getState().turnAdvanceDueAt).toBe(Date.now() + 3000);
+
+    vi.advanceTimersByTime(3000);
+    expect(useGameStore.getState().currentPlayerIndex).toBe(1);
+  });
+});
@@ -1,313 +1,628 @@
 import { create } from 'zustand';
-import { devtools } from 'zustand/middleware';
+import { devtools, persist } from 'zustand/middleware';
 import { 
   GameState, 
   GameMode, 
+  GameOptions,
   PlayerState, 
   DartScore, 
-  Turn,
-  CHECKOUT_SUGGESTIONS 
+  DetectedDart,
+  PendingDart,
+  MatchFormat,
+  MatchEvent,
+  MatchProgress,
+  TeamRotation,
+  TurnAdvancePolicy
 } from '../types/game';
+import { PlayerProfile } from '../types/profile';
+import { getGameRules } from '../games';
+import { DEFAULT_MATCH_FORMAT } from '../games/matchFormat';
+import { updatePlayer } from '../games/shared';
+import { TEAM_COUNT, isTeam, nameTeams, nextSeatId, seatsOf } from '../games/teams';
+import {
+  GAME_SCHEMA_VERSION,
+  GAME_STORAGE_KEY,
+  gameStorage,
+  isMatchInProgress,
+  migrateGameState,
+  partializeGameState
+} from './persistence';
+import { createMatchRecord, deleteMatch, saveMatch } from './matchHistory';
+import {
+  DEFAULT_DARTS_PER_TURN,
+  DartRef,
+  LoggedDart,
+  applyMatchEvent,
+  createMatchProgress,
+  dartRefKey,
+  hasUserEvents,
+  locateLoggedDarts,
+  pickMatchProgress,
+  popLastUserEvent,
+  replayMatchLog
+} from './matchLog';
 
-const DEFAULT_DARTS_PER_TURN = 3;
+const DEFAULT_AUTO_COMMIT_CONFIDENCE = 0.9;
+
+// The top of the auto-accept slider turns it off: every detection waits for review, even one the camera is sure of
+export const AUTO_COMMIT_OFF = 1;
+const DEFAULT_TURN_ADVANCE: TurnAdvancePolicy = { mode: 'delayed', delaySeconds: 3 };
+
+let nextPendingDartId = 1;
+let turnAdvanceTimer: ReturnType<typeof setTimeout> | undefined;
 
 interface GameStore extends GameState {
+  // Local persistence
+  resumeAvailable: boolean; // A match in progress was restored and is waiting to be resumed
+  
   // Setup actions
   setGameMode: (mode: GameMode) => void;
-  setLegsToWin: (legs: number) => void;
-  addPlayer: (name: string) => void;
-  removePlayer: (id: number) => void;
+  setGameOptions: (options: GameOptions) => void;
+  setMatchFormat: (format: MatchFormat) => void;
+  addPlayer: (profile: PlayerProfile) => void;
+  syncPlayerProfile: (profile: PlayerProfile) => void;
+  removePlayer: (id: number) => void; // A player, or a member of a team
   resetPlayers: () => void;
+  setTeamPlay: (teamPlay: boolean) => void;
+  moveTeamMember: (id: number, teamId: number, position: number) => void;
+  setTeamRotation: (rotation: TeamRotation) => void;
   
   // Game actions
   startGame: () => void;
   resetGame: () => void;
+  resumeMatch: () => void;
   registerDart: (dart: DartScore) => void;
   endTurn: () => void;
-  undoLastDart: () => void;
+  undo: () => void;
+  redo: () => void;
+  
+  // Scoresheet corrections
+  correctDart: (ref: DartRef, dart: DartScore) => void;
+  correctTurnTotal: (ref: Omit<DartRef, 'dartIndex'>, total: number) => void;
+  
+  // Camera review queue
+  queueDetectedDart: (detection: DetectedDart) => void;
+  confirmPendingDart: (id: number, correction?: DartScore) => void;
+  rejectPendingDart: (id: number) => void;
+  setAutoCommitConfidence: (confidence: number) => void;
+  
+  // Passing finished turns on
+  setTurnAdvance: (policy: Partial<TurnAdvancePolicy>) => void;
+  cancelTurnAdvance: () => void;
+  registerTakeout: () => void; // The camera saw the darts pulled from the board
   
   // Getters
   getCurrentPlayer: () => PlayerState | undefined;
-  getCheckoutSuggestion: (score: number) => string | undefined;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
 }
 
+// A new seat in the setup, ready for the selected game
+const createSeat = (
+  { gameMode, gameOptions }: Pick<GameState, 'gameMode' | 'gameOptions'>,
+  seat: Pick<PlayerState, 'id' | 'profileId' | 'name' | 'members'>
+): PlayerState => ({
+  ...seat,
+  score: 0,
+  initialScore: 0,
+  ...getGameRules(gameMode).initialPlayerState(gameOptions),
+  dartsThrown: 0,
+  legsWon: 0,
+  setsWon: 0,
+  currentTurn: false,
+  history: [],
+});
+
+// Take on progress derived from the match log, keeping the archived copy of the match in step
+const commitMatchProgress = (
+  get: () => GameStore,
+  set: (partial: Partial<GameStore>) => void,
+  progress: MatchProgress,
+  changes: Partial<GameStore>
+) => {
+  const wasFinished = get().gameFinished;
+  
+  // Detections queued for a turn that has closed no longer apply
+  const turnClosed = !progress.currentTurn.length || progress.gameFinished;
+  
+  // Any change to the match stops a countdown; a newly finished turn starts its own
+  clearTimeout(turnAdvanceTimer);
+  
+  set({
+    ...progress,
+    ...(turnClosed && { pendingDarts: [], takeoutWaiting: false }),
+    turnAdvanceDueAt: undefined,
+    ...changes,
+  });
+  
+  const state = get();
+  
+  if (state.gameFinished) {
+    // Saved on every change while finished, so corrections reach the history. The scoreboard stays either way.
+    saveMatch(createMatchRecord(state)).catch(error => console.error('Failed to save match to history:', error));
+  } else if (wasFinished && state.startedAt) {
+    // Undone back into play - it comes back to the history when it finishes again
+    deleteMatch(state.startedAt).catch(error => console.error('Failed to remove match from history:', error));
+  }
+};
+
+// Append an event to the match log and apply it
+const dispatchMatchEvent = (
+  get: () => GameStore,
+  set: (partial: Partial<GameStore>) => void,
+  event: MatchEvent,
+  { keepRedo = false } = {}
+) => {
+  const state = get();
+  if (!state.gameStarted || !state.matchBase) return;
+  
+  let matchLog = [...state.matchLog, event];
+  const current = pickMatchProgress(state);
+  
+  // Corrections rewrite the past, so everything after them is scored again
+  let progress = event.type === 'correction'
+    ? replayMatchLog(state, state.matchBase, matchLog)
+    : applyMatchEvent(state, current, event);
+  
+  // Nothing happened (a dart after the match is over, ...) - keep it out of the log
+  if (progress === current) return;
+  
+  // Once a leg is won the next one starts straight away
+  if (progress.nextLegStarterIndex !== undefined) {
+    const legStart: MatchEvent = { type: 'legStart', starterIndex: progress.nextLegStarterIndex, at: event.at };
+    progress = applyMatchEvent(state, progress, legStart);
+    matchLog = [...matchLog, legStart];
+  }
+  
+  commitMatchProgress(get, set, progress, { 
+    matchLog, 
+    redoLog: keepRedo ? state.redoLog : [] 
+  });
+};
+
+// Pass a turn that has run out of darts, or gone bust, on to the next player as the policy says
+const scheduleTurnAdvance = (
+  get: () => GameStore,
+  set: (partial: Partial<GameStore>) => void
+) => {
+  const { turnAdvance, currentTurn, currentTurnBust, dartsRemaining, gameFinished } = get();
+  const turnOver = currentTurn.length > 0 && (!dartsRemaining || currentTurnBust);
+  
+  if (!turnOver || gameFinished) return;
+  
+  if (turnAdvance.mode === 'immediate') {
+    get().endTurn();
+  } else if (turnAdvance.mode === 'delayed') {
+    const delay = turnAdvance.delaySeconds * 1000;
+    
+    clearTimeout(turnAdvanceTimer);
+    turnAdvanceTimer = setTimeout(() => get().endTurn(), delay);
+    set({ turnAdvanceDueAt: Date.now() + delay });
+  }
+};
+
+const cancelTurnAdvance = (set: (partial: Partial<GameStore>) => void) => {
+  clearTimeout(turnAdvanceTimer);
+  set({ turnAdvanceDueAt: undefined });
+};
+
+// Register queued detections from the front of the queue while they clear the threshold
+const commitConfidentDarts = (
+  get: () => GameStore,
+  set: (partial: Partial<GameStore>) => void
+) => {
+  const autoCommit = get().autoCommitConfidence < AUTO_COMMIT_OFF;
+  let [next, ...rest] = get().pendingDarts;
+  
+  while (autoCommit && next && !next.unconfirmed && next.confidence >= get().autoCommitConfidence) {
+    set({ pendingDarts: rest });
+    get().registerDart(next.dart);
+    
+    [next, ...rest] = get().pendingDarts;
+  }
+  
+  // A takeout held back by the queue goes through once it's empty
+  if (get().takeoutWaiting && !get().pendingDarts.length) get().registerTakeout();
+};
+
 export const useGameStore = create<GameStore>()(
   devtools(
-    (set, get) => ({
-      gameMode: 501,
-      players: [],
-      legsToWin: 3,
-      currentPlayerIndex: 0,
-      dartsRemaining: DEFAULT_DARTS_PER_TURN,
-      gameStarted: false,
-      gameFinished: false,
-      currentTurn: [],
+    persist(
+      (set, get) => ({
+        gameMode: 'x01',
+        gameOptions: getGameRules('x01').defaultOptions,
+        players: [],
+        turnStartPlayers: [],
+        matchFormat: DEFAULT_MATCH_FORMAT,
+        teamRotation: 'carryOn',
+        completedSets: [],
+        completedLegs: [],
+        currentPlayerIndex: 0,
+        legStarterIndex: 0,
+        setStarterIndex: 0,
+        dartsRemaining: DEFAULT_DARTS_PER_TURN,
+        gameStarted: false,
+        matchLog: [],
+        redoLog: [],
+        gameFinished: false,
+        currentTurn: [],
+        currentTurnBust: false,
+        pendingDarts: [],
+        takeoutWaiting: false,
+        autoCommitConfidence: DEFAULT_AUTO_COMMIT_CONFIDENCE,
+        turnAdvance: DEFAULT_TURN_ADVANCE,
+        resumeAvailable: false,
 
-      // Setup actions
-      setGameMode: (mode: GameMode) => set({ gameMode: mode }),
-      
-      setLegsToWin: (legs: number) => set({ legsToWin: legs }),
-      
-      addPlayer: (name: string) => {
-        const { players, gameMode } = get();
-        const newPlayer: PlayerState = {
-          id: players.length + 1,
-          name,
-          score: gameMode,
-          initialScore: gameMode,
-          dartsThrown: 0,
-          legsWon: 0,
-          currentTurn: false,
-          history: [],
-        };
-        
-        set({ players: [...players, newPlayer] });
-      },
-      
-      removePlayer: (id: number) => {
-        set(state => ({
-          players: state.players.filter(player => player.id !== id)
-        }));
-      },
-      
-      resetPlayers: () => set({ players: [] }),
-      
-      // Game actions
-      startGame: () => {
-        const { gameMode, players } = get();
-        if (players.length === 0) return;
+        // Setup actions
+        setGameMode: (mode: GameMode) => set({ 
+          gameMode: mode, 
+          gameOptions: getGameRules(mode).defaultOptions 
+        }),
         
-        const updatedPlayers = players.map((player, index) => ({
-          ...player,
-          score: gameMode,
-          initialScore: gameMode,
-          dartsThrown: 0,
-          currentTurn: index === 0,
-          history: [],
-        }));
+        setGameOptions: (options: GameOptions) => set(state => ({ 
+          gameOptions: { ...state.gameOptions, ...options } 
+        })),
         
-        set({
-          players: updatedPlayers,
-          currentPlayerIndex: 0,
-          dartsRemaining: DEFAULT_DARTS_PER_TURN,
-          gameStarted: true,
-          gameFinished: false,
-          currentTurn: [],
-        });
-      },
-      
-      resetGame: () => {
-        const { players, gameMode } = get();
+        setMatchFormat: (format: MatchFormat) => set({ matchFormat: format }),
         
-        const resetPlayers = players.map(player => ({
-          ...player,
-          score: gameMode,
-          initialScore: gameMode,
-          dartsThrown: 0,
-          legsWon: 0,
-          currentTurn: false,
-          history: [],
-        }));
-        
-        resetPlayers[0].currentTurn = true;
+        addPlayer: (profile: PlayerProfile) => {
+          const { players } = get();
+          if (players.flatMap(seatsOf).some(seat => seat.profileId === profile.id)) return;
+          
+          // The first player to join brings their preferred rules with them
+          if (!players.flatMap(player => player.members ?? [player]).length && profile.preferredRules) {
+            set({ 
+              gameMode: profile.preferredRules.gameMode, 
+              gameOptions: profile.preferredRules.gameOptions 
+            });
+          }
+          
+          const seat = { id: nextSeatId(players), profileId: profile.id, name: profile.name };
+          
+          if (players.some(isTeam)) {
+            // Into the smaller team, so players added in turn throw A1, B1, A2, B2
+            const index = players.reduce(
+              (smallest, team, i) => (team.members.length < players[smallest].members.length ? i : smallest), 
+              0
+            );
+            set({ players: nameTeams(updatePlayer(players, index, { members: [...players[index].members, seat] })) });
+            return;
+          }
+          
+          set({ players: [...players, createSeat(get(), seat)] });
+        },
         
-        set({
-          players: resetPlayers,
-          currentPlayerIndex: 0,
-          dartsRemaining: DEFAULT_DARTS_PER_TURN,
-          gameStarted: false,
-          gameFinished: false,
-          currentTurn: [],
-        });
-      },
-      
-      registerDart: (dart: DartScore) => {
-        const { 
-          players, 
-          currentPlayerIndex, 
-          dartsRemaining, 
-          currentTurn 
-        } = get();
+        // Pick up a renamed profile for players already in the setup
+        syncPlayerProfile: (profile: PlayerProfile) => {
+          const rename = <T extends { profileId?: string; name: string }>(seat: T) =>
+            seat.profileId === profile.id ? { ...seat, name: profile.name } : seat;
+          
+          set(state => ({
+            players: nameTeams(state.players.map(player => 
+              rename({ ...player, members: player.members?.map(rename) })
+            ))
+          }));
+        },
         
-        if (dartsRemaining <= 0 || !players.length) return;
+        removePlayer: (id: number) => {
+          set(state => ({
+            players: nameTeams(state.players
+              .filter(player => player.id !== id)
+              .map(player => ({ ...player, members: player.members?.filter(member => member.id !== id) })))
+          }));
+        },
         
-        const currentPlayer = players[currentPlayerIndex];
-        const newScore = currentPlayer.score - dart.points;
+        resetPlayers: () => set({ players: [] }),
         
-        // Check if bust (score < 0 or score = 1 or unable to finish on double)
-        const isBust = newScore < 0 || newScore === 1 || (newScore === 0 && dart.multiplier !== 2);
+        // Players split into teams in setup order (A1, B1, A2, B2), and back out again in throwing order
+        setTeamPlay: (teamPlay: boolean) => {
+          const { players } = get();
+          if (teamPlay === players.some(isTeam)) return;
+          
+          if (teamPlay) {
+            const members = players.map(({ id, profileId, name }) => ({ id, profileId, name }));
+            const firstTeamId = nextSeatId(players);
+            const teams = Array.from({ length: TEAM_COUNT }, (_, index) => createSeat(get(), {
+              id: firstTeamId + index,
+              name: '',
+              members: members.filter((_, i) => i % TEAM_COUNT === index),
+            }));
+            
+            set({ players: nameTeams(teams) });
+            return;
+          }
+          
+          const rounds = Math.max(0, ...players.map(team => team.members.length));
+          const members = Array.from({ length: rounds }, (_, round) => players.map(team => team.members[round]))
+            .flat()
+            .filter(Boolean);
+          
+          set({ players: members.map(member => createSeat(get(), member)) });
+        },
+        
+        // Move a member to a place in a team's throwing order, theirs or the other's
+        moveTeamMember: (id: number, teamId: number, position: number) => {
+          const { players } = get();
+          const member = players.flatMap(player => player.members ?? []).find(member => member.id === id);
+          if (!member) return;
+          
+          set({
+            players: nameTeams(players.map(team => {
+              const members = team.members?.filter(other => other.id !== id);
+              if (team.id === teamId) members?.splice(position, 0, member);
+              return { ...team, members };
+            }))
+          });
+        },
         
-        const updatedCurrentTurn = [...currentTurn, dart];
+        setTeamRotation: (rotation: TeamRotation) => set({ teamRotation: rotation }),
         
-        if (isBust) {
-          // Bust - register the dart but don't change score
+        // Game actions
+        startGame: () => {
+          const { gameMode, matchFormat, teamRotation, players } = get();
+          if (players.length === 0 || players.some(player => player.members?.length === 0)) return;
+          
+          cancelTurnAdvance(set);
+          
+          const rules = getGameRules(gameMode);
+          const gameOptions = rules.startOptions?.(get().gameOptions) ?? get().gameOptions;
+          const progress = createMatchProgress({ gameMode, gameOptions, matchFormat, teamRotation }, players);
+          
           set({
-            currentTurn: updatedCurrentTurn,
-            dartsRemaining: dartsRemaining - 1,
+            ...progress,
+            gameOptions,
+            matchBase: progress,
+            matchLog: [],
+            redoLog: [],
+            startedAt: Date.now(),
+            gameStarted: true,
+            pendingDarts: [],
+            takeoutWaiting: false,
           });
-          
-          // If it was the last dart of the turn, end turn
-          // if (dartsRemaining === 1) { // Removed auto end turn
-          //   get().endTurn();
-          // }
-          return;
-        }
-        
-        // Valid dart - update player score
-        const updatedPlayers = [...players];
-        updatedPlayers[currentPlayerIndex] = {
-          ...currentPlayer,
-          score: newScore,
-          dartsThrown: currentPlayer.dartsThrown + 1,
-        };
+        },
         
-        // Check for leg win
-        if (newScore === 0) {
-          updatedPlayers[currentPlayerIndex].legsWon += 1;
-          
-          // Check for game win
-          if (updatedPlayers[currentPlayerIndex].legsWon >= get().legsToWin) {
-            set({
-              players: updatedPlayers,
-              currentTurn: updatedCurrentTurn,
-              gameFinished: true,
-              dartsRemaining: 0,
-            });
-            return;
-          }
+        resetGame: () => {
+          const { players, gameMode, gameOptions } = get();
           
-          // Leg completed - setup for next leg
-          const nextPlayerIndex = (currentPlayerIndex + 1) % players.length;
+          cancelTurnAdvance(set);
           
-          const playersForNextLeg = updatedPlayers.map((player, index) => ({
+          const resetPlayers = players.map(player => ({
             ...player,
-            score: get().gameMode,
-            currentTurn: index === nextPlayerIndex,
+            ...getGameRules(gameMode).initialPlayerState(gameOptions),
+            dartsThrown: 0,
+            legsWon: 0,
+            setsWon: 0,
+            currentTurn: false,
             history: [],
           }));
           
+          resetPlayers[0].currentTurn = true;
+          
           set({
-            players: playersForNextLeg,
-            currentPlayerIndex: nextPlayerIndex,
+            players: resetPlayers,
+            turnStartPlayers: resetPlayers,
+            completedSets: [],
+            completedLegs: [],
+            currentPlayerIndex: 0,
+            legStarterIndex: 0,
+            setStarterIndex: 0,
+            nextLegStarterIndex: undefined,
+            legStartedAt: undefined,
+            startedAt: undefined,
+            matchBase: undefined,
+            matchLog: [],
+            redoLog: [],
             dartsRemaining: DEFAULT_DARTS_PER_TURN,
+            gameStarted: false,
+            gameFinished: false,
             currentTurn: [],
+            currentTurnBust: false,
+            pendingDarts: [],
+            takeoutWaiting: false,
+            resumeAvailable: false,
           });
-          
-          return;
-        }
-        
-        // Continue the turn
-        set({
-          players: updatedPlayers,
-          currentTurn: updatedCurrentTurn, 
-          dartsRemaining: dartsRemaining - 1,
-        });
-        
-        // If it was the last dart of the turn, end turn
-        // if (dartsRemaining === 1) { // Removed auto end turn
-        //   get().endTurn();
-        // }
-      },
-      
-      endTurn: () => {
-        const { 
-          players, 
-          currentPlayerIndex, 
-          currentTurn
-        } = get();
-        
-        if (!players.length) return;
-        
-        // Calculate total score for the turn
-        const turnScore = currentTurn.reduce((sum, dart) => sum + dart.points, 0);
-        
-        // Check if bust
-        const currentPlayer = players[currentPlayerIndex];
-        const finalScore = currentPlayer.score;
-        const isBust = finalScore !== currentPlayer.initialScore - turnScore;
-        
-        // Create turn history entry
-        const turnHistory: Turn = {
-          darts: [...currentTurn],
-          score: turnScore,
-          remainingScore: isBust ? currentPlayer.initialScore : finalScore,
-          bust: isBust
-        };
-        
-        // Update player history
-        const updatedPlayers = [...players];
-        
-        const playerWithHistory = {
-          ...currentPlayer,
-          history: [...currentPlayer.history, turnHistory],
-          currentTurn: false,
-          initialScore: isBust ? currentPlayer.initialScore : finalScore
-        };
-        
-        updatedPlayers[currentPlayerIndex] = playerWithHistory;
+        },
         
-        // Move to next player
-        const nextPlayerIndex = (currentPlayerIndex + 1) % players.length;
-        updatedPlayers[nextPlayerIndex].currentTurn = true;
-        
-        set({
-          players: updatedPlayers,
-          currentPlayerIndex: nextPlayerIndex,
-          dartsRemaining: DEFAULT_DARTS_PER_TURN,
-          currentTurn: [],
-        });
-        
-        // If it was the last dart of the turn, end turn
-        // if (dartsRemaining === 1) { // Removed auto end turn
-        //   get().endTurn();
-        // }
-      },
-      
-      undoLastDart: () => {
-        const { currentTurn, dartsRemaining, players, currentPlayerIndex } = get();
+        resumeMatch: () => {
+          set({ resumeAvailable: false });
+          
+          // The countdown isn't saved, so a turn that was over when the match was left starts a fresh one
+          scheduleTurnAdvance(get, set);
+        },
         
-        if (!currentTurn.length || !players.length) return;
+        registerDart: (dart: DartScore) => {
+          dispatchMatchEvent(get, set, { type: 'dart', dart, at: Date.now() });
+          
+          // The last dart of the turn, or a bust, hands over to the next player
+          scheduleTurnAdvance(get, set);
+        },
+        
+        endTurn: () => {
+          dispatchMatchEvent(get, set, { type: 'endTurn', at: Date.now() });
+        },
+        
+        // Step back one dart or turn at a time, across legs and out of a finished match
+        undo: () => {
+          const { matchLog, redoLog, matchBase } = get();
+          const popped = popLastUserEvent(matchLog);
+          
+          if (!popped || !matchBase) return;
+          
+          commitMatchProgress(get, set, replayMatchLog(get(), matchBase, popped.events), {
+            matchLog: popped.events,
+            redoLog: [...redoLog, popped.undone],
+            pendingDarts: [],
+            takeoutWaiting: false,
+          });
+        },
         
-        // Remove the last dart
-        const updatedCurrentTurn = [...currentTurn];
-        const removedDart = updatedCurrentTurn.pop();
+        redo: () => {
+          const { redoLog } = get();
+          const event = redoLog[redoLog.length - 1];
+          
+          if (!event) return;
+          
+          set({ redoLog: redoLog.slice(0, -1) });
+          dispatchMatchEvent(get, set, event, { keepRedo: true });
+          
+          // Putting back a turn's last dart hands over again, as throwing it did
+          scheduleTurnAdvance(get, set);
+        },
+        
+        // Scoresheet corrections
+        correctDart: (ref: DartRef, dart: DartScore) => {
+          const { matchBase, matchLog } = get();
+          if (!matchBase) return;
+          
+          const logged = locateLoggedDarts(get(), matchBase, matchLog).get(dartRefKey(ref));
+          if (!logged) return;
+          
+          const darts = [...logged.darts];
+          darts[logged.slot] = dart;
+          
+          dispatchMatchEvent(get, set, { type: 'correction', darts: { [logged.target]: darts }, at: Date.now() });
+        },
         
-        if (!removedDart) return;
+        // Replace the darts of a turn with a single typed-in total
+        correctTurnTotal: (ref: Omit<DartRef, 'dartIndex'>, total: number) => {
+          const { matchBase, matchLog } = get();
+          if (!matchBase) return;
+          
+          const located = locateLoggedDarts(get(), matchBase, matchLog);
+          const turnDarts: LoggedDart[] = [];
+          
+          let logged = located.get(dartRefKey({ ...ref, dartIndex: 0 }));
+          while (logged) {
+            turnDarts.push(logged);
+            logged = located.get(dartRefKey({ ...ref, dartIndex: turnDarts.length }));
+          }
+          
+          if (!turnDarts.length) return;
+          
+          // The total takes the place of the turn's first dart; the rest of the turn's darts are dropped
+          const totalDart: DartScore = { segment: 0, multiplier: 1, points: total, isTotal: true };
+          const darts: Record<number, DartScore[]> = {};
+          
+          turnDarts.forEach((logged, index) => {
+            const replacements = darts[logged.target] ?? [...logged.darts];
+            replacements[logged.slot] = index === 0 ? totalDart : undefined;
+            darts[logged.target] = replacements;
+          });
+          
+          for (const target of Object.keys(darts)) {
+            darts[Number(target)] = darts[Number(target)].filter(Boolean);
+          }
+          
+          dispatchMatchEvent(get, set, { type: 'correction', darts, at: Date.now() });
+        },
         
-        // Revert player score
-        const currentPlayer = players[currentPlayerIndex];
-        const updatedScore = currentPlayer.score + removedDart.points;
+        // Camera review queue
+        queueDetectedDart: (detection: DetectedDart) => {
+          const { pendingDarts, dartsRemaining, currentTurnBust, gameStarted, gameFinished } = get();
+          
+          if (!gameStarted || gameFinished) return;
+          
+          // Ignore detections beyond the darts left in this turn, or after it went bust. Unconfirmed misses may be
+          // nothing at all, so leave room for the darts behind them.
+          const queued = pendingDarts.filter(p => !p.unconfirmed).length;
+          if (queued >= dartsRemaining || currentTurnBust) return;
+          
+          const pendingDart: PendingDart = {
+            ...detection,
+            id: nextPendingDartId++,
+            detectedAt: Date.now(),
+          };
+          
+          set({ pendingDarts: [...pendingDarts, pendingDart] });
+          commitConfidentDarts(get, set);
+        },
         
-        const updatedPlayers = [...players];
-        updatedPlayers[currentPlayerIndex] = {
-          ...currentPlayer,
-          score: updatedScore,
-          dartsThrown: Math.max(0, currentPlayer.dartsThrown - 1),
-        };
+        confirmPendingDart: (id: number, correction?: DartScore) => {
+          const { pendingDarts } = get();
+          const index = pendingDarts.findIndex(p => p.id === id);
+          
+          if (index === -1) return;
+          
+          // Darts are committed in throw order, so anything queued ahead is accepted as detected. Unconfirmed
+          // misses passed over are taken as nothing having been thrown.
+          const darts = [
+            ...pendingDarts.slice(0, index).filter(p => !p.unconfirmed).map(p => p.dart),
+            correction ?? pendingDarts[index].dart,
+          ];
+          
+          set({ pendingDarts: pendingDarts.slice(index + 1) });
+          
+          for (const dart of darts) {
+            get().registerDart(dart);
+            
+            // A leg win clears the turn, along with anything still queued for it
+            if (!get().currentTurn.length) return;
+          }
+          
+          commitConfidentDarts(get, set);
+        },
         
-        set({
-          players: updatedPlayers,
-          currentTurn: updatedCurrentTurn,
-          dartsRemaining: dartsRemaining + 1,
-        });
-      },
-      
-      // Getters
-      getCurrentPlayer: () => {
-        const { players, currentPlayerIndex } = get();
-        return players[currentPlayerIndex];
-      },
-      
-      getCheckoutSuggestion: (score: number) => {
-        if (score > 170) return undefined;
+        rejectPendingDart: (id: number) => {
+          set(state => ({
+            pendingDarts: state.pendingDarts.filter(p => p.id !== id)
+          }));
+          commitConfidentDarts(get, set);
+        },
         
-        const suggestions = CHECKOUT_SUGGESTIONS[score];
-        if (!suggestions || !suggestions.length) return undefined;
+        setAutoCommitConfidence: (confidence: number) => {
+          set({ autoCommitConfidence: confidence });
+          commitConfidentDarts(get, set);
+        },
         
-        // Return first suggestion formatted as a string
-        return suggestions[0].darts.join(' → ');
-      },
-    }),
+        setTurnAdvance: (policy: Partial<TurnAdvancePolicy>) => {
+          set(state => ({ turnAdvance: { ...state.turnAdvance, ...policy } }));
+          
+          // A turn already waiting follows the new policy
+          cancelTurnAdvance(set);
+          scheduleTurnAdvance(get, set);
+        },
+        
+        cancelTurnAdvance: () => cancelTurnAdvance(set),
+        
+        // Pulling the darts out ends the turn however many landed, unless turns are only passed by hand.
+        // Detections still waiting for review hold it open until they're dealt with.
+        registerTakeout: () => {
+          const { turnAdvance, currentTurn, pendingDarts, gameFinished } = get();
+          if (turnAdvance.mode === 'manual' || gameFinished) return;
+          
+          if (pendingDarts.length) {
+            set({ takeoutWaiting: true });
+            return;
+          }
+          
+          set({ takeoutWaiting: false });
+          if (currentTurn.length) get().endTurn();
+        },
+        
+        // Getters
+        getCurrentPlayer: () => {
+          const { players, currentPlayerIndex } = get();
+          return players[currentPlayerIndex];
+        },
+        
+        canUndo: () => hasUserEvents(get().matchLog),
+        
+        canRedo: () => get().redoLog.length > 0,
+      }),
+      {
+        name: GAME_STORAGE_KEY,
+        storage: gameStorage,
+        version: GAME_SCHEMA_VERSION,
+        partialize: state => partializeGameState(state),
+        migrate: migrateGameState,
+        // A match left unfinished is offered for resuming rather than dropped straight back into
+        merge: (persistedState, currentState) => ({
+          ...currentState,
+          ...(persistedState as Partial<GameStore>),
+          resumeAvailable: isMatchInProgress(persistedState as Partial<GameStore>),
+        }),
+      }
+    ),
     { name: 'game-store' }
   )
 );
@@ -0,0 +1,98 @@
+import { GameState, MatchRecord } from '../types/game';
+import { totalLegsWon } from '../games/matchFormat';
+import { seatsOf } from '../games/teams';
+
+const DB_NAME = 'dart-tracker';
+const DB_VERSION = 2;
+const MATCHES_STORE = 'matches';
+
+let database: Promise<IDBDatabase> | undefined;
+
+// Wrap an IndexedDB request in a promise
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+
+      const matches = db.objectStoreNames.contains(MATCHES_STORE)
+        ? request.transaction.objectStore(MATCHES_STORE)
+        : db.createObjectStore(MATCHES_STORE, { keyPath: 'id' });
+
+      if (!matches.indexNames.contains('finishedAt')) matches.createIndex('finishedAt', 'finishedAt');
+      if (!matches.indexNames.contains('gameMode')) matches.createIndex('gameMode', 'gameMode');
+
+      // v2: matches are found by any of their players' profiles
+      if (!matches.indexNames.contains('profileIds')) {
+        matches.createIndex('profileIds', 'profileIds', { multiEntry: true });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  return database;
+};
+
+const matchStore = async (mode: IDBTransactionMode) =>
+  (await openDatabase()).transaction(MATCHES_STORE, mode).objectStore(MATCHES_STORE);
+
+// The history entry for a finished match. It is keyed by the start time, so saving it again replaces it.
+export const createMatchRecord = (state: GameState): MatchRecord => {
+  const { players, completedSets, completedLegs } = state;
+  const lastLeg = completedLegs[completedLegs.length - 1];
+  const finishedAt = lastLeg?.finishedAt ?? Date.now();
+  const startedAt = state.startedAt ?? finishedAt;
+
+  return {
+    id: startedAt,
+    gameMode: state.gameMode,
+    gameOptions: state.gameOptions,
+    matchFormat: state.matchFormat,
+    players: players.map(player => ({
+      id: player.id,
+      profileId: player.profileId,
+      name: player.name,
+      members: player.members,
+      legsWon: totalLegsWon(player, completedSets),
+      setsWon: player.setsWon,
+    })),
+    profileIds: players.flatMap(seatsOf).map(seat => seat.profileId).filter(Boolean),
+    winnerId: lastLeg?.winnerId,
+    completedSets,
+    legs: completedLegs,
+    startedAt,
+    finishedAt,
+  };
+};
+
+export const saveMatch = async (match: MatchRecord) => {
+  await promisify((await matchStore('readwrite')).put(match));
+};
+
+// All matches, most recent first
+export const listMatches = async () => {
+  const matches = await promisify((await matchStore('readonly')).index('finishedAt').getAll());
+  return (matches as MatchRecord[]).reverse();
+};
+
+// Matches a profile played in, most recent first
+export const listMatchesForProfile = async (profileId: string) => {
+  const matches = await promisify((await matchStore('readonly')).index('profileIds').getAll(profileId));
+  return (matches as MatchRecord[]).sort((a, b) => b.finishedAt - a.finishedAt);
+};
+
+export const getMatch = async (id: number) =>
+  (await promisify((await matchStore('readonly')).get(id))) as MatchRecord | undefined;
+
+export const deleteMatch = async (id: number) => {
+  await promisify((await matchStore('readwrite')).delete(id));
+};
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { DartScore, MatchEvent, PlayerState } from '../types/game';
+import { createDartScore } from '../utils/dartboard/scoreCalculator';
+import { MISS } from '../utils/dartboard/boardGeometry';
+import { MatchSetup, createMatchProgress, dartRefKey, locateLoggedDarts, replayMatchLog } from './matchLog';
+
+const S = (segment: number) => createDartScore(segment, 1);
+const D = (segment: number) => createDartScore(segment, 2);
+const T = (segment: number) => createDartScore(segment, 3);
+
+const setup: MatchSetup = {
+  gameMode: 'x01',
+  gameOptions: { startScore: 101, inRule: 'straight', outRule: 'double' },
+  matchFormat: { type: 'firstTo', legs: 2 },
+  teamRotation: 'carryOn',
+};
+
+const player = (id: number, name: string): PlayerState => ({
+  id,
+  name,
+  score: 0,
+  initialScore: 0,
+  dartsThrown: 0,
+  legsWon: 0,
+  setsWon: 0,
+  currentTurn: false,
+  history: [],
+});
+
+const base = createMatchProgress(setup, [player(1, 'A'), player(2, 'B')]);
+
+const turn = (darts: DartScore[], end = true): MatchEvent[] => [
+  ...darts.map(dart => ({ type: 'dart' as const, dart, at: 0 })),
+  ...(end ? [{ type: 'endTurn' as const, at: 0 }] : []),
+];
+
+// A leaves 40 and B 98, then A checks out 20, D10. B opens the next leg with 60 before A throws three fives.
+const openingTurns = [...turn([T(20), S(1), MISS]), ...turn([S(1), S(1), S(1)])];
+const SETUP_DART = openingTurns.length;
+const WINNING_DART = SETUP_DART + 1;
+const NEXT_LEG_DART = WINNING_DART + 2;
+
+const events: MatchEvent[] = [
+  ...openingTurns,
+  ...turn([S(20), D(10)], false),
+  { type: 'legStart', starterIndex: 1, at: 0 },
+  ...turn([S(20), S(20), S(20)]),
+  ...turn([S(5), S(5), S(5)], false),
+];
+
+const correct = (log: MatchEvent[], index: number, dart: DartScore): MatchEvent[] => [
+  ...log,
+  { type: 'correction', darts: { [index]: [dart] }, at: 0 },
+];
+
+describe('match log corrections', () => {
+  it('replays the log as thrown', () => {
+    const { players, completedLegs, currentPlayerIndex } = replayMatchLog(setup, base, events);
+
+    expect(completedLegs).toHaveLength(1);
+    expect(players.map(({ legsWon, score }) => ({ legsWon, score }))).toEqual([
+      { legsWon: 1, score: 86 },
+      { legsWon: 0, score: 41 },
+    ]);
+    expect(currentPlayerIndex).toBe(0);
+  });
+
+  it('plays the leg on from a winning dart corrected to a miss, each turn staying with its thrower', () => {
+    const { players, completedLegs, currentPlayerIndex, currentTurn } = replayMatchLog(
+      setup,
+      base,
+      correct(events, WINNING_DART, MISS)
+    );
+
+    expect(completedLegs).toHaveLength(0);
+    expect(players.map(({ legsWon, score }) => ({ legsWon, score }))).toEqual([
+      { legsWon: 0, score: 5 },
+      { legsWon: 0, score: 38 },
+    ]);
+    expect(players[0].history.map(turn => turn.remainingScore)).toEqual([40, 20]);
+    expect(currentPlayerIndex).toBe(0);
+    expect(currentTurn).toEqual([S(5), S(5), S(5)]);
+  });
+
+  it('ends the leg at an earlier dart corrected into a checkout, dropping the rest of that turn', () => {
+    const { players, completedLegs } = replayMatchLog(setup, base, correct(events, SETUP_DART, D(20)));
+
+    expect(completedLegs).toHaveLength(1);
+    expect(completedLegs[0].winnerId).toBe(1);
+    expect(completedLegs[0].turns[1].map(turn => turn.darts)).toEqual([[T(20), S(1), MISS], [D(20)]]);
+    expect(players.map(({ legsWon, score }) => ({ legsWon, score }))).toEqual([
+      { legsWon: 1, score: 86 },
+      { legsWon: 0, score: 41 },
+    ]);
+  });
+
+  it('keeps darts after a corrected bust as thrown, scoring nothing', () => {
+    const { players, completedLegs } = replayMatchLog(setup, base, correct(events, SETUP_DART, T(20)));
+    const [, bustTurn] = players[0].history;
+
+    expect(bustTurn).toMatchObject({ darts: [T(20), D(10)], bust: true, remainingScore: 40 });
+    expect(completedLegs).toHaveLength(0);
+    expect(players.map(({ score }) => score)).toEqual([25, 38]);
+    expect(players[0].dartsThrown).toBe(8);
+  });
+
+  it('finds corrected darts on the scoresheet where the replay puts them', () => {
+    const located = locateLoggedDarts(setup, base, correct(events, WINNING_DART, MISS));
+
+    expect(located.get(dartRefKey({ legIndex: 0, playerId: 2, turnIndex: 1, dartIndex: 0 }))?.target).toBe(NEXT_LEG_DART);
+    expect(located.has(dartRefKey({ legIndex: 1, playerId: 2, turnIndex: 0, dartIndex: 0 }))).toBe(false);
+  });
+
+  it('rescores a dart that leaves the legs as they were', () => {
+    const { players, completedLegs } = replayMatchLog(setup, base, correct(events, NEXT_LEG_DART, S(19)));
+
+    expect(completedLegs).toHaveLength(1);
+    expect(players.map(({ score }) => score)).toEqual([86, 42]);
+  });
+
+  it('lets the last dart thrown be corrected into a checkout', () => {
+    const live = events.slice(0, SETUP_DART + 1);
+    const { players, nextLegStarterIndex } = replayMatchLog(setup, base, correct(live, SETUP_DART, D(20)));
+
+    expect(players[0].legsWon).toBe(1);
+    expect(nextLegStarterIndex).toBe(1);
+  });
+});
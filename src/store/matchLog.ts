@@ -0,0 +1,420 @@
+import {
+  DartScore,
+  GameState,
+  LegRecord,
+  MatchEvent,
+  MatchProgress,
+  PlayerState
+} from '../types/game';
+import { getGameRules, playTurn } from '../games';
+import { legsToWinSet } from '../games/matchFormat';
+import { recordTurn } from '../games/teams';
+import { GameRules } from '../types/rules';
+
+export const DEFAULT_DARTS_PER_TURN = 3;
+
+// What a match is played to, fixed once it starts
+export type MatchSetup = Pick<GameState, 'gameMode' | 'gameOptions' | 'matchFormat' | 'teamRotation'>;
+
+// Events the user makes; leg starts follow from them and are undone along with them
+const isUserEvent = (event: MatchEvent) => event.type !== 'legStart';
+
+// Credit the winner with the leg (and the set, if it decides one), then finish the match or wait for the next leg
+const completeLeg = (
+  setup: MatchSetup,
+  progress: MatchProgress,
+  players: PlayerState[],
+  winnerIndex: number,
+  currentTurn: DartScore[],
+  at: number
+): MatchProgress => {
+  const { gameMode, gameOptions, matchFormat } = setup;
+  const { completedSets, completedLegs, turnStartPlayers, currentPlayerIndex, legStarterIndex, setStarterIndex } = progress;
+  const rules = getGameRules(gameMode);
+
+  let updatedPlayers = [...players];
+
+  // A leg won mid-turn hasn't been through endTurn, so close the winning turn for the history
+  if (currentTurn.length) {
+    const { turn } = rules.endTurn(
+      { players, playerIndex: currentPlayerIndex, options: gameOptions },
+      currentTurn,
+      false,
+      turnStartPlayers
+    );
+    updatedPlayers[currentPlayerIndex] = recordTurn(updatedPlayers[currentPlayerIndex], turn);
+  }
+
+  const legRecord: LegRecord = {
+    setNumber: completedSets.length + 1,
+    legNumber: players.reduce((sum, player) => sum + player.legsWon, 0) + 1,
+    starterId: players[legStarterIndex].id,
+    winnerId: players[winnerIndex].id,
+    turns: Object.fromEntries(updatedPlayers.map(player => [player.id, player.history])),
+    startedAt: progress.legStartedAt ?? at,
+    finishedAt: at,
+  };
+
+  updatedPlayers[winnerIndex] = {
+    ...updatedPlayers[winnerIndex],
+    legsWon: updatedPlayers[winnerIndex].legsWon + 1,
+  };
+
+  // Check for set win - record the leg score and start the next set from zero
+  const setWon = updatedPlayers[winnerIndex].legsWon >= legsToWinSet(matchFormat);
+  let updatedSets = completedSets;
+
+  if (setWon) {
+    updatedSets = [...completedSets, {
+      legsWon: Object.fromEntries(updatedPlayers.map(player => [player.id, player.legsWon])),
+      winnerId: updatedPlayers[winnerIndex].id,
+    }];
+
+    updatedPlayers = updatedPlayers.map((player, index) => ({
+      ...player,
+      legsWon: 0,
+      setsWon: index === winnerIndex ? player.setsWon + 1 : player.setsWon,
+    }));
+  }
+
+  const matchWon = rules.isMatchWon(updatedPlayers[winnerIndex], matchFormat);
+
+  // Throw order rotates per leg, and each new set is opened by the player after the last set's opener
+  const nextLegStarterIndex = setWon
+    ? (setStarterIndex + 1) % players.length
+    : (legStarterIndex + 1) % players.length;
+
+  return {
+    ...progress,
+    players: updatedPlayers,
+    completedSets: updatedSets,
+    completedLegs: [...completedLegs, legRecord],
+    nextLegStarterIndex: matchWon ? undefined : nextLegStarterIndex,
+    currentTurn,
+    gameFinished: matchWon,
+    dartsRemaining: 0,
+  };
+};
+
+// Set up a fresh leg; a leg with nobody on the board yet opens a new set
+const startLeg = (setup: MatchSetup, progress: MatchProgress, starterIndex: number): MatchProgress => {
+  const rules = getGameRules(setup.gameMode);
+  const opensSet = progress.players.every(player => player.legsWon === 0);
+
+  const players = progress.players.map((player, index) => ({
+    ...player,
+    ...rules.initialPlayerState(setup.gameOptions),
+    ...(player.members && setup.teamRotation === 'restart' && { throwerIndex: 0 }),
+    currentTurn: index === starterIndex,
+    history: [],
+  }));
+
+  return {
+    ...progress,
+    players,
+    turnStartPlayers: players,
+    currentPlayerIndex: starterIndex,
+    legStarterIndex: starterIndex,
+    setStarterIndex: opensSet ? starterIndex : progress.setStarterIndex,
+    nextLegStarterIndex: undefined,
+    legStartedAt: undefined,
+    dartsRemaining: DEFAULT_DARTS_PER_TURN,
+    currentTurn: [],
+    currentTurnBust: false,
+  };
+};
+
+// A dart for the current turn. Replays pass `keepThrown` for darts logged after a corrected dart ended the turn:
+// they were thrown all the same, so they count as thrown but score nothing.
+const throwDart = (
+  setup: MatchSetup,
+  progress: MatchProgress,
+  dart: DartScore,
+  at: number,
+  { keepThrown = false } = {}
+): MatchProgress => {
+  const {
+    players,
+    turnStartPlayers,
+    currentPlayerIndex,
+    dartsRemaining,
+    currentTurn,
+    currentTurnBust,
+    gameFinished
+  } = progress;
+
+  // A bust ends the throwing for this turn
+  if (gameFinished || !players.length) return progress;
+  if (!keepThrown && (dartsRemaining <= 0 || currentTurnBust)) return progress;
+
+  const updatedCurrentTurn = [...currentTurn, dart];
+
+  // The leg is timed from its first dart
+  progress = { ...progress, legStartedAt: progress.legStartedAt ?? at };
+
+  // Score the whole turn again from its start, so busts and capped marks resolve consistently
+  const { players: updatedPlayers, bust, turnOver, legWinner } = playTurn(
+    getGameRules(setup.gameMode),
+    setup.gameOptions,
+    turnStartPlayers,
+    currentPlayerIndex,
+    updatedCurrentTurn
+  );
+
+  // Check for leg win
+  if (legWinner !== undefined) {
+    return completeLeg(setup, progress, updatedPlayers, legWinner, updatedCurrentTurn, at);
+  }
+
+  // Continue the turn; a dart that ends it without a bust leaves no darts to throw
+  return {
+    ...progress,
+    players: updatedPlayers,
+    currentTurn: updatedCurrentTurn,
+    currentTurnBust: bust,
+    dartsRemaining: turnOver && !bust ? 0 : Math.max(0, dartsRemaining - 1),
+  };
+};
+
+// The player after `index` in throw order, passing over anyone the ruleset has put out of the leg
+const nextPlayerInLeg = (rules: GameRules, setup: MatchSetup, players: PlayerState[], index: number) => {
+  for (let step = 1; step <= players.length; step++) {
+    const next = (index + step) % players.length;
+    if (!rules.isOutOfLeg?.(players[next], setup.gameOptions, players)) return next;
+  }
+
+  return (index + 1) % players.length;
+};
+
+const endTurn = (setup: MatchSetup, progress: MatchProgress, at: number): MatchProgress => {
+  const { players, turnStartPlayers, currentPlayerIndex, currentTurn, currentTurnBust, gameFinished } = progress;
+
+  if (gameFinished || !players.length) return progress;
+
+  const rules = getGameRules(setup.gameMode);
+  const context = { players, playerIndex: currentPlayerIndex, options: setup.gameOptions };
+
+  // Let the ruleset close the turn and describe it for the history
+  const { players: scoredPlayers, turn } = rules.endTurn(
+    context,
+    currentTurn,
+    currentTurnBust,
+    turnStartPlayers
+  );
+
+  const playersWithHistory = scoredPlayers.map((player, index) => ({
+    ...(index === currentPlayerIndex ? recordTurn(player, turn) : player),
+    initialScore: player.score,
+  }));
+
+  // Some games are only decided once a turn is complete
+  const legWinner = rules.getLegWinner({ ...context, players: playersWithHistory });
+  if (legWinner !== undefined) {
+    return completeLeg(setup, progress, playersWithHistory, legWinner, [], at);
+  }
+
+  // Move to the next player still in the leg
+  const nextPlayerIndex = nextPlayerInLeg(rules, setup, playersWithHistory, currentPlayerIndex);
+  const updatedPlayers = playersWithHistory.map((player, index) => ({
+    ...player,
+    currentTurn: index === nextPlayerIndex,
+  }));
+
+  return {
+    ...progress,
+    players: updatedPlayers,
+    turnStartPlayers: updatedPlayers,
+    currentPlayerIndex: nextPlayerIndex,
+    dartsRemaining: DEFAULT_DARTS_PER_TURN,
+    currentTurn: [],
+    currentTurnBust: false,
+  };
+};
+
+// Apply one event. Events that change nothing (a dart after the match is over, ...) return progress as it was.
+export const applyMatchEvent = (setup: MatchSetup, progress: MatchProgress, event: MatchEvent): MatchProgress => {
+  switch (event.type) {
+    case 'dart':
+      return throwDart(setup, progress, event.dart, event.at);
+    case 'endTurn':
+      return endTurn(setup, progress, event.at);
+    case 'legStart':
+      return progress.nextLegStarterIndex === undefined
+        ? progress
+        : startLeg(setup, progress, event.starterIndex);
+    case 'correction':
+      // Folded into the log before replaying, see collectTurns
+      return progress;
+  }
+};
+
+// The darts now standing in for each corrected dart, by log index; a later correction of the same dart wins
+const collectCorrections = (events: MatchEvent[]) => {
+  const corrections = new Map<number, DartScore[]>();
+
+  for (const event of events) {
+    if (event.type !== 'correction') continue;
+
+    for (const [target, darts] of Object.entries(event.darts)) {
+      corrections.set(Number(target), darts);
+    }
+  }
+
+  return corrections;
+};
+
+// A turn as logged, with its darts as corrected, and the event that closed it
+type LoggedTurn = {
+  darts: { dart: DartScore; at: number; target: number; slot: number; replacements: DartScore[] }[];
+  closedBy?: 'endTurn' | 'legStart'; // Unset for the turn still being thrown
+  closedAt?: number;
+};
+
+// Split the log into the turns as they were thrown. A leg start closes the turn that won the leg, unless an end of
+// turn already did.
+const collectTurns = (events: MatchEvent[]) => {
+  const corrections = collectCorrections(events);
+  const turns: LoggedTurn[] = [];
+  let turn: LoggedTurn = { darts: [] };
+
+  events.forEach((event, index) => {
+    if (event.type === 'dart') {
+      const replacements = corrections.get(index) ?? [event.dart];
+      replacements.forEach((dart, slot) => turn.darts.push({ dart, at: event.at, target: index, slot, replacements }));
+    } else if (event.type === 'endTurn' || (event.type === 'legStart' && turn.darts.length)) {
+      turns.push({ ...turn, closedBy: event.type, closedAt: event.at });
+      turn = { darts: [] };
+    }
+  });
+
+  if (turn.darts.length) turns.push(turn);
+  return turns;
+};
+
+// Replay the log turn by turn, working out again where each leg ends. Turns keep the darts logged for them, so a
+// correction can't hand one player's darts to another: a turn that no longer wins its leg passes on as any other
+// turn, and once a leg is won the darts left in that turn are dropped and the next turn opens the next leg.
+// `onDart` sees each dart played, with the match as it stood before it.
+const replayTurns = (
+  setup: MatchSetup,
+  base: MatchProgress,
+  events: MatchEvent[],
+  onDart?: (progress: MatchProgress, logged: LoggedTurn['darts'][number]) => void
+) => {
+  const legOver = (progress: MatchProgress) => progress.gameFinished || progress.nextLegStarterIndex !== undefined;
+  let progress = base;
+
+  for (const turn of collectTurns(events)) {
+    if (progress.gameFinished) break;
+    if (legOver(progress)) progress = startLeg(setup, progress, progress.nextLegStarterIndex);
+
+    for (const logged of turn.darts) {
+      if (legOver(progress)) break;
+
+      onDart?.(progress, logged);
+      progress = throwDart(setup, progress, logged.dart, logged.at, { keepThrown: true });
+    }
+
+    if (turn.closedBy && !legOver(progress)) progress = endTurn(setup, progress, turn.closedAt);
+  }
+
+  // A leg won with nothing thrown since starts once its leg start is logged
+  const last = events.filter(event => event.type !== 'correction').pop();
+  if (last?.type === 'legStart' && legOver(progress) && !progress.gameFinished) {
+    progress = startLeg(setup, progress, progress.nextLegStarterIndex);
+  }
+
+  return progress;
+};
+
+export const replayMatchLog = (setup: MatchSetup, base: MatchProgress, events: MatchEvent[]): MatchProgress =>
+  replayTurns(setup, base, events);
+
+// Drop the last user event, along with the leg start that followed it
+export const popLastUserEvent = (events: MatchEvent[]) => {
+  let index = events.length - 1;
+  while (index >= 0 && !isUserEvent(events[index])) index--;
+
+  if (index < 0) return undefined;
+
+  return { events: events.slice(0, index), undone: events[index] };
+};
+
+// A dart on the scoresheet: the leg it was thrown in, whose turn, and its place in that turn
+export type DartRef = {
+  legIndex: number;
+  playerId: number;
+  turnIndex: number;
+  dartIndex: number;
+};
+
+// Where a scoresheet dart sits in the log: the logged dart it stands in for, and which of that dart's replacements it is
+export type LoggedDart = {
+  target: number;
+  slot: number;
+  darts: DartScore[]; // Everything the logged dart currently stands for
+};
+
+export const dartRefKey = ({ legIndex, playerId, turnIndex, dartIndex }: DartRef) =>
+  `${legIndex}:${playerId}:${turnIndex}:${dartIndex}`;
+
+// Replay the log, noting where each dart lands on the scoresheet
+export const locateLoggedDarts = (setup: MatchSetup, base: MatchProgress, events: MatchEvent[]) => {
+  const located = new Map<string, LoggedDart>();
+
+  replayTurns(setup, base, events, (progress, { target, slot, replacements }) => {
+    const player = progress.players[progress.currentPlayerIndex];
+
+    const ref = {
+      legIndex: progress.completedLegs.length,
+      playerId: player.id,
+      turnIndex: player.history.length,
+      dartIndex: progress.currentTurn.length,
+    };
+
+    located.set(dartRefKey(ref), { target, slot, darts: replacements });
+  });
+
+  return located;
+};
+
+export const hasUserEvents = (events: MatchEvent[]) => events.some(isUserEvent);
+
+// The fields of a game state the log decides
+export const pickMatchProgress = (state: MatchProgress): MatchProgress => ({
+  players: state.players,
+  turnStartPlayers: state.turnStartPlayers,
+  completedSets: state.completedSets,
+  completedLegs: state.completedLegs,
+  currentPlayerIndex: state.currentPlayerIndex,
+  legStarterIndex: state.legStarterIndex,
+  setStarterIndex: state.setStarterIndex,
+  nextLegStarterIndex: state.nextLegStarterIndex,
+  legStartedAt: state.legStartedAt,
+  dartsRemaining: state.dartsRemaining,
+  gameFinished: state.gameFinished,
+  currentTurn: state.currentTurn,
+  currentTurnBust: state.currentTurnBust,
+});
+
+// A match about to begin: everyone back to zero, with the first player (and each team's first member) throwing first
+export const createMatchProgress = (setup: MatchSetup, players: PlayerState[]): MatchProgress =>
+  startLeg(setup, {
+    players: players.map(player => ({
+      ...player,
+      ...(player.members && { throwerIndex: 0 }),
+      dartsThrown: 0,
+      legsWon: 0,
+      setsWon: 0,
+    })),
+    turnStartPlayers: [],
+    completedSets: [],
+    completedLegs: [],
+    currentPlayerIndex: 0,
+    legStarterIndex: 0,
+    setStarterIndex: 0,
+    dartsRemaining: DEFAULT_DARTS_PER_TURN,
+    gameFinished: false,
+    currentTurn: [],
+    currentTurnBust: false,
+  }, 0);
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LegRecord, PlayerState } from '../types/game';
+import { saveMatch } from './matchHistory';
+import { GAME_SCHEMA_VERSION, migrateGameState } from './persistence';
+
+vi.mock('./matchHistory', () => ({ saveMatch: vi.fn(() => Promise.resolve()) }));
+
+const player = (id: number, name: string, score: number): PlayerState => ({
+  id,
+  name,
+  score,
+  initialScore: score,
+  dartsThrown: 3,
+  legsWon: 0,
+  setsWon: 0,
+  currentTurn: id === 1,
+  history: [],
+});
+
+// A match under way, as any version saved it
+const inProgress = {
+  gameMode: 'x01',
+  gameOptions: { startScore: 501, inRule: 'straight', outRule: 'double' },
+  matchFormat: { type: 'firstTo', legs: 3 },
+  players: [player(1, 'A', 441), player(2, 'B', 501)],
+  turnStartPlayers: [player(1, 'A', 441), player(2, 'B', 501)],
+  completedSets: [],
+  currentPlayerIndex: 1,
+  legStarterIndex: 0,
+  setStarterIndex: 0,
+  dartsRemaining: 3,
+  gameStarted: true,
+  gameFinished: false,
+  currentTurn: [],
+  currentTurnBust: false,
+};
+
+const leg: LegRecord = {
+  setNumber: 1,
+  legNumber: 1,
+  starterId: 1,
+  winnerId: 1,
+  turns: { 1: [], 2: [] },
+  finishedAt: 1000,
+};
+
+describe('saved game migrations', () => {
+  beforeEach(() => vi.mocked(saveMatch).mockClear());
+
+  it('moves a v1 match history out to the history database', () => {
+    const migrated = migrateGameState({
+      ...inProgress,
+      matchHistory: [{
+        id: 500,
+        gameMode: 'x01',
+        players: [{ ...player(1, 'A', 0), setsWon: 1 }, player(2, 'B', 40)],
+        completedSets: [{ legsWon: { 1: 2, 2: 1 }, winnerId: 1 }],
+      }],
+    }, 1) as unknown as Record<string, unknown>;
+
+    expect(migrated.matchHistory).toBeUndefined();
+    expect(migrated.completedLegs).toEqual([]);
+    expect(saveMatch).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(saveMatch).mock.calls[0][0]).toMatchObject({
+      id: 500,
+      players: [
+        { id: 1, name: 'A', legsWon: 2, setsWon: 1 },
+        { id: 2, name: 'B', legsWon: 1, setsWon: 0 },
+      ],
+      profileIds: [],
+      winnerId: 1,
+      legs: [],
+    });
+  });
+
+  it('logs a v1 match under way from where it stands', () => {
+    const migrated = migrateGameState(inProgress, 1);
+
+    expect(migrated.matchLog).toEqual([]);
+    expect(migrated.redoLog).toEqual([]);
+    expect(migrated.matchBase).toMatchObject({
+      players: inProgress.players,
+      currentPlayerIndex: 1,
+      completedLegs: [],
+    });
+  });
+
+  it('keeps a v2 match its finished legs', () => {
+    const migrated = migrateGameState({ ...inProgress, completedLegs: [leg] }, 2);
+
+    expect(saveMatch).not.toHaveBeenCalled();
+    expect(migrated.completedLegs).toEqual([leg]);
+    expect(migrated.matchBase.completedLegs).toEqual([leg]);
+    expect(migrated.matchBase.currentTurn).toEqual([]);
+  });
+
+  it('leaves a v2 setup with no match started without a log base', () => {
+    const migrated = migrateGameState({ ...inProgress, gameStarted: false, completedLegs: [] }, 2);
+
+    expect(migrated.matchBase).toBeUndefined();
+    expect(migrated.matchLog).toEqual([]);
+  });
+
+  it('starts fresh from a state saved by a newer version', () => {
+    expect(migrateGameState(inProgress, GAME_SCHEMA_VERSION + 1)).toEqual({});
+  });
+});
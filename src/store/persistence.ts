@@ -0,0 +1,101 @@
+import { createJSONStorage } from 'zustand/middleware';
+import { GameState, MatchProgress, MatchRecord, PlayerState, SetResult } from '../types/game';
+import { saveMatch } from './matchHistory';
+import { pickMatchProgress } from './matchLog';
+
+export const GAME_STORAGE_KEY = 'dart-tracker-game';
+
+// Bump when the persisted shape changes, and add a migration from the previous version
+export const GAME_SCHEMA_VERSION = 3;
+
+// What survives a reload: the match itself, but not camera detections awaiting review or a running countdown
+export type PersistedGameState = Omit<GameState, 'pendingDarts' | 'takeoutWaiting' | 'turnAdvanceDueAt'>;
+
+type PersistedRecord = Record<string, unknown>;
+
+// Each entry upgrades a stored state from the version before it
+const MIGRATIONS: Record<number, (state: PersistedRecord) => PersistedRecord> = {
+  // v2: finished matches move to IndexedDB (see matchHistory.ts), and legs are kept for the scoresheet
+  2: ({ matchHistory, ...state }) => {
+    const archived = (matchHistory ?? []) as {
+      id: number;
+      players: PlayerState[];
+      completedSets: SetResult[];
+    }[];
+
+    archived.forEach(match => {
+      const record = {
+        ...match,
+        players: match.players.map(player => ({
+          id: player.id,
+          name: player.name,
+          legsWon: match.completedSets.reduce((sum, set) => sum + (set.legsWon[player.id] ?? 0), 0),
+          setsWon: player.setsWon,
+        })),
+        profileIds: [],
+        winnerId: match.completedSets[match.completedSets.length - 1]?.winnerId,
+        legs: [],
+      } as MatchRecord;
+
+      saveMatch(record).catch(error => console.error('Failed to move match to history:', error));
+    });
+
+    return { ...state, completedLegs: [] };
+  },
+
+  // v3: matches are played from an event log. A match already under way is logged from where it stands.
+  3: state => ({
+    ...state,
+    matchBase: state.gameStarted ? pickMatchProgress(state as unknown as MatchProgress) : undefined,
+    matchLog: [],
+    redoLog: [],
+  }),
+};
+
+export const gameStorage = createJSONStorage<PersistedGameState>(() => localStorage);
+
+export const partializeGameState = (state: PersistedGameState): PersistedGameState => ({
+  gameMode: state.gameMode,
+  gameOptions: state.gameOptions,
+  players: state.players,
+  turnStartPlayers: state.turnStartPlayers,
+  matchFormat: state.matchFormat,
+  teamRotation: state.teamRotation,
+  completedSets: state.completedSets,
+  completedLegs: state.completedLegs,
+  currentPlayerIndex: state.currentPlayerIndex,
+  legStarterIndex: state.legStarterIndex,
+  setStarterIndex: state.setStarterIndex,
+  nextLegStarterIndex: state.nextLegStarterIndex,
+  legStartedAt: state.legStartedAt,
+  startedAt: state.startedAt,
+  dartsRemaining: state.dartsRemaining,
+  gameStarted: state.gameStarted,
+  matchBase: state.matchBase,
+  matchLog: state.matchLog,
+  redoLog: state.redoLog,
+  gameFinished: state.gameFinished,
+  currentTurn: state.currentTurn,
+  currentTurnBust: state.currentTurnBust,
+  autoCommitConfidence: state.autoCommitConfidence,
+  turnAdvance: state.turnAdvance,
+});
+
+export const migrateGameState = (persistedState: unknown, version: number): PersistedGameState => {
+  // Written by a newer build we can't read - start fresh rather than load a shape we don't know
+  if (version > GAME_SCHEMA_VERSION || !persistedState || typeof persistedState !== 'object') {
+    return {} as PersistedGameState;
+  }
+
+  let state = persistedState as PersistedRecord;
+  for (let next = version + 1; next <= GAME_SCHEMA_VERSION; next++) {
+    const migrate = MIGRATIONS[next];
+    if (migrate) state = migrate(state);
+  }
+
+  return state as PersistedGameState;
+};
+
+// A match that was still being played when the app was closed
+export const isMatchInProgress = (state: Partial<GameState>) =>
+  Boolean(state.gameStarted && !state.gameFinished);
@@ -0,0 +1,62 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { PlayerProfile } from '../types/profile';
+
+export const AVATAR_COLORS = [
+  '#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899'
+];
+
+type NewProfile = Pick<PlayerProfile, 'name'> & Partial<Omit<PlayerProfile, 'id' | 'createdAt'>>;
+
+interface ProfileStore {
+  profiles: PlayerProfile[];
+  
+  createProfile: (profile: NewProfile) => PlayerProfile;
+  updateProfile: (id: string, changes: Partial<Omit<PlayerProfile, 'id' | 'createdAt'>>) => void;
+  deleteProfile: (id: string) => void;
+  getProfile: (id: string | undefined) => PlayerProfile | undefined;
+}
+
+// Ids must stay unique on devices without crypto.randomUUID (plain http on the local network)
+const createProfileId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const useProfileStore = create<ProfileStore>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        profiles: [],
+        
+        createProfile: (profile: NewProfile) => {
+          const { profiles } = get();
+          const newProfile: PlayerProfile = {
+            color: AVATAR_COLORS[profiles.length % AVATAR_COLORS.length],
+            throwingHand: 'right',
+            ...profile,
+            id: createProfileId(),
+            createdAt: Date.now(),
+          };
+          
+          set({ profiles: [...profiles, newProfile] });
+          return newProfile;
+        },
+        
+        updateProfile: (id, changes) => set(state => ({
+          profiles: state.profiles.map(profile => profile.id === id ? { ...profile, ...changes } : profile)
+        })),
+        
+        deleteProfile: (id: string) => set(state => ({
+          profiles: state.profiles.filter(profile => profile.id !== id)
+        })),
+        
+        getProfile: (id: string | undefined) => get().profiles.find(profile => profile.id === id),
+      }),
+      {
+        name: 'dart-tracker-profiles',
+        version: 1,
+        partialize: state => ({ profiles: state.profiles }),
+      }
+    ),
+    { name: 'profile-store' }
+  )
+);
@@ -1,13 +1,61 @@
 
-export type GameMode = 301 | 501;
+// Id of a ruleset registered in games/index.ts
+export type GameMode =
+  | 'x01'
+  | 'cricket'
+  | 'killer'
+  | 'shanghai'
+  | 'halveIt'
+  | 'aroundTheClock'
+  | 'bobs27'
+  | 'doublesDrill'
+  | 'checkoutTrainer';
 
+// Options for the active ruleset; each ruleset defines its own shape
+export type GameOptions = Record<string, unknown>;
+
+// Numbers in play for cricket, in scoreboard order (25 is the bull)
+export const CRICKET_TARGETS = [20, 19, 18, 17, 16, 15, 25];
+
+// Marks per cricket target; 3 marks closes a number
+export type CricketMarks = Record<number, number>;
+
+// Checkout practice: the finish being tried, and how the player has done so far
+export type CheckoutAttempt = {
+  target: number; // The score the attempt started from
+  visitsLeft: number; // Turns left to finish it, counting the current one
+  attempts: number; // Attempts completed
+  successes: number;
+};
+
+// Team play: one of the players sharing a team's score
+export type TeamMember = {
+  id: number; // Seat in this match, distinct from the team's own
+  profileId?: string;
+  name: string;
+};
+
+// Where each team's throwers pick up in a new leg: after whoever threw last, or from the top of the order
+export type TeamRotation = 'carryOn' | 'restart';
+
+// A player, or in team play a team, with the score they play for
 export type PlayerState = {
-  id: number;
+  id: number; // Seat in this match
+  profileId?: string; // The player profile, see types/profile.ts
   name: string;
-  score: number;
-  initialScore: number;
+  score: number; // X01: remaining score, cricket: points
+  initialScore: number; // Score at the start of the current turn
+  marks?: CricketMarks;
+  checkedIn?: boolean; // X01: has met the in-rule and started scoring
+  checkoutAttempt?: CheckoutAttempt;
+  killerNumber?: number; // Killer: the number the player claimed
+  isKiller?: boolean; // Killer: has hit their own double
+  roundMultipliers?: number[]; // Shanghai: singles, doubles and trebles hit on the round's number this turn
+  members?: TeamMember[]; // Team play: the team's players, in throwing order
+  throwerIndex?: number; // Team play: the member throwing the current or next turn
   dartsThrown: number;
-  legsWon: number;
+  legsWon: number; // Legs won in the current set
+  setsWon: number;
   currentTurn: boolean;
   history: Turn[];
 };
@@ -18,6 +66,8 @@ export type DartScore = {
   isBull?: boolean;
   isOuterBull?: boolean;
   points: number;
+  position?: { x: number; y: number }; // Where it landed, in mm from the board centre (y down)
+  isTotal?: boolean; // A turn total typed in by the scorer, standing in for the darts of the turn
 };
 
 export type Turn = {
@@ -25,169 +75,125 @@ export type Turn = {
   score: number;
   remainingScore: number;
   bust: boolean;
+  marks?: number; // Cricket marks hit in the turn
+  target?: number; // Doubles practice: the double the turn was thrown at
+  checkoutAttempt?: { target: number; success: boolean }; // Checkout practice: the attempt the turn ended
+  halved?: boolean; // Halve-It: every dart missed, so the score was halved
+  throwerId?: number; // Team play: the member who threw the turn
+};
+
+// How a match is decided. Leg formats are played as a single set.
+export type MatchFormat =
+  | { type: 'firstTo'; legs: number }
+  | { type: 'bestOf'; legs: number }
+  | { type: 'sets'; sets: number; legsPerSet: number }; // First to `sets` sets, each first to `legsPerSet` legs
+
+export type SetResult = {
+  legsWon: Record<number, number>; // By player id
+  winnerId: number;
 };
 
-export type GameState = {
+// Every turn of a finished leg, kept for the match scoresheet
+export type LegRecord = {
+  setNumber: number; // Counting from 1
+  legNumber: number; // Within the set, counting from 1
+  starterId: number;
+  winnerId: number;
+  turns: Record<number, Turn[]>; // By player id, in throw order
+  startedAt?: number; // When its first dart was thrown; missing for legs recorded before this was kept
+  finishedAt: number;
+};
+
+// A finished match kept in the local history
+export type MatchRecord = {
+  id: number;
   gameMode: GameMode;
+  gameOptions: GameOptions;
+  matchFormat: MatchFormat;
+  players: { // Totals for the match
+    id: number;
+    profileId?: string;
+    name: string;
+    members?: TeamMember[];
+    legsWon: number;
+    setsWon: number;
+  }[];
+  profileIds: string[]; // Indexed, to find a profile's matches, team members included
+  winnerId: number;
+  completedSets: SetResult[];
+  legs: LegRecord[];
+  startedAt: number;
+  finishedAt: number;
+};
+
+// Why the camera scored a dart as a miss: it stuck outside the double ring, or a throw left no dart in the board
+export type MissReason = 'outsideBoard' | 'bounceOut';
+
+// A score a detected dart may have, with how likely it is (0..1)
+export type ScoreCandidate = {
+  dart: DartScore;
+  probability: number;
+};
+
+// A camera detection waiting to be committed to the current turn
+export type PendingDart = {
+  id: number;
+  dart: DartScore;
+  confidence: number; // 0..1, as reported by the detector
+  candidates?: ScoreCandidate[]; // Scores the dart may have, most likely (`dart`) first
+  miss?: MissReason; // Set when the camera saw a miss rather than a dart scoring
+  unconfirmed?: boolean; // A miss the camera isn't sure was a throw: never committed without review
+  detectedAt: number;
+};
+
+// What the camera reports for each dart, as queued for review
+export type DetectedDart = Omit<PendingDart, 'id' | 'detectedAt'>;
+
+// When a finished turn (three darts thrown, or a bust) passes to the next player
+export type TurnAdvanceMode = 'immediate' | 'delayed' | 'manual';
+
+export type TurnAdvancePolicy = {
+  mode: TurnAdvanceMode;
+  delaySeconds: number; // Countdown before the turn passes, in 'delayed' mode
+};
+
+// One entry in the append-only match log. Replaying the log from its base rebuilds the match.
+export type MatchEvent =
+  | { type: 'dart'; dart: DartScore; at: number }
+  | { type: 'endTurn'; at: number }
+  | { type: 'legStart'; starterIndex: number; at: number } // Logged automatically once a leg is won
+  | { type: 'correction'; darts: Record<number, DartScore[]>; at: number }; // Replaces darts, by log index
+
+// The part of the game state the match log decides
+export type MatchProgress = {
   players: PlayerState[];
-  legsToWin: number;
+  turnStartPlayers: PlayerState[]; // Players as they stood before the current turn
+  completedSets: SetResult[];
+  completedLegs: LegRecord[];
   currentPlayerIndex: number;
+  legStarterIndex: number; // Player who threw first in the current leg
+  setStarterIndex: number; // Player who threw first in the current set
+  nextLegStarterIndex?: number; // Set between a leg being won and the next one starting
+  legStartedAt?: number; // When the first dart of the current leg was thrown
   dartsRemaining: number;
-  gameStarted: boolean;
   gameFinished: boolean;
   currentTurn: DartScore[];
+  currentTurnBust: boolean;
 };
 
-export type CheckoutSuggestion = {
-  darts: string[];
-  totalPoints: number;
-};
-
-export const CHECKOUT_SUGGESTIONS: Record<number, CheckoutSuggestion[]> = {
-  // Three-dart checkouts
-  170: [{ darts: ["T20", "T20", "Bull"], totalPoints: 170 }],
-  167: [{ darts: ["T20", "T19", "Bull"], totalPoints: 167 }],
-  164: [{ darts: ["T20", "T18", "Bull"], totalPoints: 164 }],
-  161: [{ darts: ["T20", "T17", "Bull"], totalPoints: 161 }],
-  160: [{ darts: ["T20", "T20", "D20"], totalPoints: 160 }],
-  158: [{ darts: ["T20", "T20", "D19"], totalPoints: 158 }],
-  157: [{ darts: ["T20", "T19", "D20"], totalPoints: 157 }],
-  156: [{ darts: ["T20", "T20", "D18"], totalPoints: 156 }],
-  155: [{ darts: ["T20", "T19", "D19"], totalPoints: 155 }],
-  154: [{ darts: ["T20", "T18", "D20"], totalPoints: 154 }],
-  153: [{ darts: ["T20", "T19", "D18"], totalPoints: 153 }],
-  152: [{ darts: ["T20", "T20", "D16"], totalPoints: 152 }],
-  151: [{ darts: ["T20", "T17", "D20"], totalPoints: 151 }],
-  150: [{ darts: ["T20", "T18", "D18"], totalPoints: 150 }],
-  149: [{ darts: ["T20", "T19", "D16"], totalPoints: 149 }],
-  148: [{ darts: ["T20", "T20", "D14"], totalPoints: 148 }],
-  147: [{ darts: ["T20", "T17", "D18"], totalPoints: 147 }],
-  146: [{ darts: ["T20", "T18", "D16"], totalPoints: 146 }],
-  145: [{ darts: ["T20", "T19", "D14"], totalPoints: 145 }],
-  144: [{ darts: ["T20", "T20", "D12"], totalPoints: 144 }],
-  143: [{ darts: ["T20", "T17", "D16"], totalPoints: 143 }],
-  142: [{ darts: ["T20", "T14", "D20"], totalPoints: 142 }],
-  141: [{ darts: ["T20", "T19", "D12"], totalPoints: 141 }],
-  140: [{ darts: ["T20", "T20", "D10"], totalPoints: 140 }],
-  139: [{ darts: ["T20", "T19", "D11"], totalPoints: 139 }],
-  138: [{ darts: ["T20", "T18", "D12"], totalPoints: 138 }],
-  137: [{ darts: ["T20", "T19", "D10"], totalPoints: 137 }],
-  136: [{ darts: ["T20", "T20", "D8"], totalPoints: 136 }],
-  135: [{ darts: ["T20", "T17", "D12"], totalPoints: 135 }],
-  134: [{ darts: ["T20", "T14", "D16"], totalPoints: 134 }],
-  133: [{ darts: ["T20", "T19", "D8"], totalPoints: 133 }],
-  132: [{ darts: ["T20", "T16", "D12"], totalPoints: 132 }],
-  131: [{ darts: ["T20", "T13", "D16"], totalPoints: 131 }],
-  130: [{ darts: ["T20", "T18", "D8"], totalPoints: 130 }],
-  129: [{ darts: ["T19", "T16", "D12"], totalPoints: 129 }],
-  128: [{ darts: ["T20", "T16", "D10"], totalPoints: 128 }],
-  127: [{ darts: ["T20", "T17", "D8"], totalPoints: 127 }],
-  126: [{ darts: ["T19", "T19", "D6"], totalPoints: 126 }],
-  125: [{ darts: ["T20", "T19", "D4"], totalPoints: 125 }],
-  124: [{ darts: ["T20", "T16", "D8"], totalPoints: 124 }],
-  123: [{ darts: ["T19", "T16", "D9"], totalPoints: 123 }],
-  122: [{ darts: ["T18", "T18", "D7"], totalPoints: 122 }],
-  121: [{ darts: ["T20", "T11", "D14"], totalPoints: 121 }],
-  120: [{ darts: ["T20", "20", "D20"], totalPoints: 120 }],
-  119: [{ darts: ["T19", "T12", "D13"], totalPoints: 119 }],
-  118: [{ darts: ["T20", "18", "D20"], totalPoints: 118 }],
-  117: [{ darts: ["T20", "17", "D20"], totalPoints: 117 }],
-  116: [{ darts: ["T20", "16", "D20"], totalPoints: 116 }],
-  115: [{ darts: ["T20", "15", "D20"], totalPoints: 115 }],
-  114: [{ darts: ["T20", "14", "D20"], totalPoints: 114 }],
-  113: [{ darts: ["T20", "13", "D20"], totalPoints: 113 }],
-  112: [{ darts: ["T20", "12", "D20"], totalPoints: 112 }],
-  111: [{ darts: ["T20", "11", "D20"], totalPoints: 111 }],
-  110: [{ darts: ["T20", "10", "D20"], totalPoints: 110 }],
-  109: [{ darts: ["T20", "9", "D20"], totalPoints: 109 }],
-  108: [{ darts: ["T20", "8", "D20"], totalPoints: 108 }],
-  107: [{ darts: ["T19", "10", "D20"], totalPoints: 107 }],
-  106: [{ darts: ["T20", "6", "D20"], totalPoints: 106 }],
-  105: [{ darts: ["T20", "5", "D20"], totalPoints: 105 }],
-  104: [{ darts: ["T18", "10", "D20"], totalPoints: 104 }],
-  103: [{ darts: ["T19", "6", "D20"], totalPoints: 103 }],
-  102: [{ darts: ["T20", "10", "D16"], totalPoints: 102 }],
-  101: [{ darts: ["T17", "10", "D20"], totalPoints: 101 }],
-  100: [{ darts: ["T20", "D20"], totalPoints: 100 }],
-  
-  // Two-dart checkouts
-  99: [{ darts: ["T19", "D21"], totalPoints: 99 }],
-  98: [{ darts: ["T20", "D19"], totalPoints: 98 }],
-  97: [{ darts: ["T19", "D20"], totalPoints: 97 }],
-  96: [{ darts: ["T20", "D18"], totalPoints: 96 }],
-  95: [{ darts: ["T19", "D19"], totalPoints: 95 }],
-  94: [{ darts: ["T18", "D20"], totalPoints: 94 }],
-  93: [{ darts: ["T19", "D18"], totalPoints: 93 }],
-  92: [{ darts: ["T20", "D16"], totalPoints: 92 }],
-  91: [{ darts: ["T17", "D20"], totalPoints: 91 }],
-  90: [{ darts: ["T18", "D18"], totalPoints: 90 }],
-  89: [{ darts: ["T19", "D16"], totalPoints: 89 }],
-  88: [{ darts: ["T20", "D14"], totalPoints: 88 }],
-  87: [{ darts: ["T17", "D18"], totalPoints: 87 }],
-  86: [{ darts: ["T18", "D16"], totalPoints: 86 }],
-  85: [{ darts: ["T19", "D14"], totalPoints: 85 }],
-  84: [{ darts: ["T20", "D12"], totalPoints: 84 }],
-  83: [{ darts: ["T17", "D16"], totalPoints: 83 }],
-  82: [{ darts: ["T14", "D20"], totalPoints: 82 }],
-  81: [{ darts: ["T19", "D12"], totalPoints: 81 }],
-  80: [{ darts: ["T20", "D10"], totalPoints: 80 }],
-  79: [{ darts: ["T19", "D11"], totalPoints: 79 }],
-  78: [{ darts: ["T18", "D12"], totalPoints: 78 }],
-  77: [{ darts: ["T19", "D10"], totalPoints: 77 }],
-  76: [{ darts: ["T20", "D8"], totalPoints: 76 }],
-  75: [{ darts: ["T17", "D12"], totalPoints: 75 }],
-  74: [{ darts: ["T14", "D16"], totalPoints: 74 }],
-  73: [{ darts: ["T19", "D8"], totalPoints: 73 }],
-  72: [{ darts: ["T16", "D12"], totalPoints: 72 }],
-  71: [{ darts: ["T13", "D16"], totalPoints: 71 }],
-  70: [{ darts: ["T18", "D8"], totalPoints: 70 }],
-  69: [{ darts: ["T19", "D6"], totalPoints: 69 }],
-  68: [{ darts: ["T20", "D4"], totalPoints: 68 }],
-  67: [{ darts: ["T17", "D8"], totalPoints: 67 }],
-  66: [{ darts: ["T10", "D18"], totalPoints: 66 }],
-  65: [{ darts: ["T19", "D4"], totalPoints: 65 }],
-  64: [{ darts: ["T16", "D8"], totalPoints: 64 }],
-  63: [{ darts: ["T13", "D12"], totalPoints: 63 }],
-  62: [{ darts: ["T10", "D16"], totalPoints: 62 }],
-  61: [{ darts: ["T15", "D8"], totalPoints: 61 }],
-  60: [{ darts: ["20", "D20"], totalPoints: 60 }],
-  59: [{ darts: ["19", "D20"], totalPoints: 59 }],
-  58: [{ darts: ["18", "D20"], totalPoints: 58 }],
-  57: [{ darts: ["17", "D20"], totalPoints: 57 }],
-  56: [{ darts: ["16", "D20"], totalPoints: 56 }],
-  55: [{ darts: ["15", "D20"], totalPoints: 55 }],
-  54: [{ darts: ["14", "D20"], totalPoints: 54 }],
-  53: [{ darts: ["13", "D20"], totalPoints: 53 }],
-  52: [{ darts: ["12", "D20"], totalPoints: 52 }],
-  51: [{ darts: ["11", "D20"], totalPoints: 51 }],
-  50: [{ darts: ["10", "D20"], totalPoints: 50 }],
-  49: [{ darts: ["9", "D20"], totalPoints: 49 }],
-  48: [{ darts: ["8", "D20"], totalPoints: 48 }],
-  47: [{ darts: ["15", "D16"], totalPoints: 47 }],
-  46: [{ darts: ["6", "D20"], totalPoints: 46 }],
-  45: [{ darts: ["13", "D16"], totalPoints: 45 }],
-  44: [{ darts: ["12", "D16"], totalPoints: 44 }],
-  43: [{ darts: ["11", "D16"], totalPoints: 43 }],
-  42: [{ darts: ["10", "D16"], totalPoints: 42 }],
-  41: [{ darts: ["9", "D16"], totalPoints: 41 }],
-  40: [{ darts: ["D20"], totalPoints: 40 }],
-  38: [{ darts: ["D19"], totalPoints: 38 }],
-  36: [{ darts: ["D18"], totalPoints: 36 }],
-  34: [{ darts: ["D17"], totalPoints: 34 }],
-  32: [{ darts: ["D16"], totalPoints: 32 }],
-  30: [{ darts: ["D15"], totalPoints: 30 }],
-  28: [{ darts: ["D14"], totalPoints: 28 }],
-  26: [{ darts: ["D13"], totalPoints: 26 }],
-  24: [{ darts: ["D12"], totalPoints: 24 }],
-  22: [{ darts: ["D11"], totalPoints: 22 }],
-  20: [{ darts: ["D10"], totalPoints: 20 }],
-  18: [{ darts: ["D9"], totalPoints: 18 }],
-  16: [{ darts: ["D8"], totalPoints: 16 }],
-  14: [{ darts: ["D7"], totalPoints: 14 }],
-  12: [{ darts: ["D6"], totalPoints: 12 }],
-  10: [{ darts: ["D5"], totalPoints: 10 }],
-  8: [{ darts: ["D4"], totalPoints: 8 }],
-  6: [{ darts: ["D3"], totalPoints: 6 }],
-  4: [{ darts: ["D2"], totalPoints: 4 }],
-  2: [{ darts: ["D1"], totalPoints: 2 }],
+export type GameState = MatchProgress & {
+  gameMode: GameMode;
+  gameOptions: GameOptions;
+  matchFormat: MatchFormat;
+  teamRotation: TeamRotation;
+  startedAt?: number; // When the match was started, as a timestamp
+  gameStarted: boolean;
+  matchBase?: MatchProgress; // The match as it stood before the first logged event
+  matchLog: MatchEvent[];
+  redoLog: MatchEvent[]; // Undone events, most recently undone last
+  pendingDarts: PendingDart[];
+  takeoutWaiting?: boolean; // The darts were pulled out while detections still awaited review
+  autoCommitConfidence: number; // Detections at or above this are committed without review
+  turnAdvance: TurnAdvancePolicy;
+  turnAdvanceDueAt?: number; // When the counting-down turn passes on, as a timestamp
 };
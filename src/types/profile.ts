@@ -0,0 +1,21 @@
+import { GameMode, GameOptions } from './game';
+
+export type ThrowingHand = 'left' | 'right';
+
+// How a player likes to check out, used to rank the suggested finishes
+export type CheckoutPreferences = {
+  preferredDoubles: number[]; // Segments, favourite first; 25 is the bullseye
+  avoidBull: boolean;
+};
+
+// A player known across matches. History and stats are keyed by the profile id.
+export type PlayerProfile = {
+  id: string;
+  name: string;
+  color: string; // Avatar background, shown with the initials when there is no picture
+  avatar?: string; // Picture as a data URL
+  throwingHand: ThrowingHand;
+  preferredRules?: { gameMode: GameMode; gameOptions: GameOptions }; // Applied when they are first to join a setup
+  checkoutPreferences?: CheckoutPreferences;
+  createdAt: number;
+};
@@ -0,0 +1,66 @@
+import { DartScore, GameMode, GameOptions, MatchFormat, PlayerState, Turn } from './game';
+import { CheckoutPreferences } from './profile';
+
+// What a ruleset is given to score with: every player, whose turn it is, and the game options
+export type RulesContext<TOptions = GameOptions> = {
+  players: PlayerState[];
+  playerIndex: number;
+  options: TOptions;
+};
+
+// Suggestions also know how far into the turn the player is and how they like to finish
+export type SuggestionContext<TOptions = GameOptions> = RulesContext<TOptions> & {
+  dartsRemaining: number;
+  checkoutPreferences?: CheckoutPreferences;
+};
+
+export type DartOutcome = {
+  players: PlayerState[];
+  bust: boolean; // The dart voids the rest of the turn
+  turnOver?: boolean; // The dart stands, but ends the turn (a practice finish)
+};
+
+export type TurnOutcome = {
+  players: PlayerState[];
+  turn: Turn; // History entry for the player whose turn ended
+};
+
+export type TargetSuggestion = {
+  title: string;
+  darts: string[];
+};
+
+export interface GameRules<TOptions = GameOptions> {
+  id: GameMode;
+  name: string;
+  practice?: boolean; // A drill, played solo or head-to-head, offered apart from the match games
+  minPlayers?: number; // Games that need opponents; one player is enough otherwise
+  defaultOptions: TOptions;
+  // 'remaining' counts down to a finish, 'points' counts up
+  scoreKind: 'remaining' | 'points';
+  getLabel: (options: TOptions) => string;
+  // Settles anything drawn fresh for each match (a random seed, ...) as it starts
+  startOptions?: (options: TOptions) => TOptions;
+  // What the scoreboard shows instead of the bare score, when the number alone says little
+  describeScore?: (player: PlayerState, options: TOptions) => string;
+  
+  // State each player starts a leg with
+  initialPlayerState: (options: TOptions) => Partial<PlayerState>;
+  
+  applyDart: (context: RulesContext<TOptions>, dart: DartScore) => DartOutcome;
+  endTurn: (
+    context: RulesContext<TOptions>, 
+    darts: DartScore[], 
+    bust: boolean, 
+    turnStartPlayers: PlayerState[]
+  ) => TurnOutcome;
+  
+  // Players with no more turns this leg (knocked out, or through every round) are passed over
+  isOutOfLeg?: (player: PlayerState, options: TOptions, players: PlayerState[]) => boolean;
+  
+  // Index of the player who has won the leg, once it is decided
+  getLegWinner: (context: RulesContext<TOptions>) => number | undefined;
+  isMatchWon: (player: PlayerState, format: MatchFormat) => boolean;
+  
+  suggestTargets: (context: SuggestionContext<TOptions>) => TargetSuggestion | undefined;
+}
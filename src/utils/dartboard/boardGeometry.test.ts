@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BOARD_GEOMETRY_MM,
+  fromPolar,
+  scoreAtMm,
+  scoreAtPixel,
+  targetCentre,
+  toBoardMm,
+  toPixels,
+  toPolar
+} from './boardGeometry';
+import { formatDart } from './dartLabel';
+import { createDartScore } from './scoreCalculator';
+import { SVG_PROJECTION } from './dartboardConfig';
+import { WARPED_PROJECTION } from '../../vision/protocol';
+
+const scoreAt = (distance: number, angle = 0) => formatDart(scoreAtMm(fromPolar({ distance, angle })));
+
+describe('board geometry', () => {
+  it('scores each ring up to and including its wire', () => {
+    const { INNER_BULL_RADIUS, OUTER_BULL_RADIUS, TRIPLE_RING_INNER_RADIUS, DOUBLE_RING_OUTER_RADIUS } = BOARD_GEOMETRY_MM;
+
+    expect(scoreAt(INNER_BULL_RADIUS)).toBe('BULL');
+    expect(scoreAt(INNER_BULL_RADIUS + 0.05)).toBe('25');
+    expect(scoreAt(OUTER_BULL_RADIUS)).toBe('25');
+    expect(scoreAt(OUTER_BULL_RADIUS + 0.1)).toBe('20');
+    expect(scoreAt(TRIPLE_RING_INNER_RADIUS)).toBe('T20');
+    expect(scoreAt(DOUBLE_RING_OUTER_RADIUS)).toBe('D20');
+    expect(scoreAt(DOUBLE_RING_OUTER_RADIUS + 0.1)).toBe('0');
+  });
+
+  it('measures angles clockwise from 20 at the top', () => {
+    expect(toPolar({ x: 0, y: -100 }).angle).toBeCloseTo(0);
+    expect(toPolar({ x: 100, y: 0 }).angle).toBeCloseTo(90);
+    expect(scoreAt(130, 90)).toBe('6');
+    expect(scoreAt(130, 180)).toBe('3');
+    expect(scoreAt(130, 270)).toBe('11');
+  });
+
+  it('puts each target centre in its own bed', () => {
+    for (const target of [createDartScore(20, 3), createDartScore(19, 1), createDartScore(16, 2), createDartScore(25, 2)]) {
+      expect(formatDart(scoreAtMm(targetCentre(target)))).toBe(formatDart(target));
+    }
+  });
+
+  it('round-trips between millimetres, the SVG board and the warped camera image', () => {
+    const spot = fromPolar({ distance: 103, angle: 40 });
+
+    for (const projection of [SVG_PROJECTION, WARPED_PROJECTION]) {
+      const back = toBoardMm(toPixels(spot, projection), projection);
+      expect(back.x).toBeCloseTo(spot.x);
+      expect(back.y).toBeCloseTo(spot.y);
+    }
+
+    // The same spot scores the same wherever it's drawn
+    const onSvg = toPixels(spot, SVG_PROJECTION);
+    const onCamera = toPixels(toBoardMm(onSvg, SVG_PROJECTION), WARPED_PROJECTION);
+    expect(formatDart(scoreAtPixel(onSvg, SVG_PROJECTION))).toBe('T18');
+    expect(formatDart(scoreAtPixel(onCamera, WARPED_PROJECTION))).toBe('T18');
+  });
+
+  it('maps the double ring onto the edge of each drawing', () => {
+    const top = fromPolar({ distance: BOARD_GEOMETRY_MM.DOUBLE_RING_OUTER_RADIUS, angle: 0 });
+
+    expect(toPixels(top, SVG_PROJECTION)).toEqual({ x: 170, y: 0 });
+    expect(toPixels(top, WARPED_PROJECTION).y).toBeCloseTo(10);
+  });
+});
@@ -0,0 +1,147 @@
+import { DartScore } from '../../types/game';
+
+export type Point = { x: number; y: number };
+
+// Regulation board dimensions in millimetres, measured from the centre of the board.
+// Ring radii are the boundaries a dart is scored against (the centre line of each wire).
+export const BOARD_GEOMETRY_MM = {
+  INNER_BULL_RADIUS: 6.35,
+  OUTER_BULL_RADIUS: 15.9,
+  TRIPLE_RING_INNER_RADIUS: 99,
+  TRIPLE_RING_OUTER_RADIUS: 107,
+  DOUBLE_RING_INNER_RADIUS: 162,
+  DOUBLE_RING_OUTER_RADIUS: 170,
+  BOARD_RADIUS: 225.5,
+  WIRE_WIDTH: 1.2,
+};
+
+// Segment numbers clockwise from the top of the board
+export const SEGMENT_ORDER = [
+  20, 1, 18, 4, 13, 6, 10, 15, 2, 17, 3, 19, 7, 16, 8, 11, 14, 9, 12, 5
+];
+
+export const SEGMENT_ANGLE = 360 / SEGMENT_ORDER.length;
+
+export const MISS: DartScore = { segment: 0, multiplier: 1, points: 0 };
+
+// Maps board millimetres onto a pixel space (an SVG viewBox, a warped camera frame, ...)
+export type BoardProjection = {
+  center: Point;
+  pixelsPerMm: number;
+};
+
+// Position relative to the board centre: distance in mm, angle in degrees clockwise from the top
+export type BoardPolar = {
+  distance: number;
+  angle: number;
+};
+
+export const createBoardProjection = (center: Point, doubleRingOuterRadiusPx: number): BoardProjection => ({
+  center,
+  pixelsPerMm: doubleRingOuterRadiusPx / BOARD_GEOMETRY_MM.DOUBLE_RING_OUTER_RADIUS,
+});
+
+export const projectRadius = (radiusMm: number, projection: BoardProjection) =>
+  radiusMm * projection.pixelsPerMm;
+
+// Pixel coordinate -> millimetres from the board centre (y grows downwards, as on screen)
+export const toBoardMm = (point: Point, projection: BoardProjection): Point => ({
+  x: (point.x - projection.center.x) / projection.pixelsPerMm,
+  y: (point.y - projection.center.y) / projection.pixelsPerMm,
+});
+
+// Millimetres from the board centre -> pixel coordinate
+export const toPixels = (pointMm: Point, projection: BoardProjection): Point => ({
+  x: projection.center.x + pointMm.x * projection.pixelsPerMm,
+  y: projection.center.y + pointMm.y * projection.pixelsPerMm,
+});
+
+export const toPolar = (pointMm: Point): BoardPolar => {
+  const distance = Math.sqrt(pointMm.x * pointMm.x + pointMm.y * pointMm.y);
+
+  // atan2 measures from 3 o'clock; shift so 0° is 12 o'clock, increasing clockwise on screen
+  let angle = Math.atan2(pointMm.y, pointMm.x) * 180 / Math.PI + 90;
+  if (angle < 0) angle += 360;
+
+  return { distance, angle: angle % 360 };
+};
+
+// Point on the board at a given polar position, in millimetres
+export const fromPolar = ({ distance, angle }: BoardPolar): Point => {
+  const radians = angle * Math.PI / 180;
+  return { x: distance * Math.sin(radians), y: -distance * Math.cos(radians) };
+};
+
+// Angular span of a segment, in degrees clockwise from the top. Segment 20 is centred on 0°.
+export const segmentAngles = (index: number) => ({
+  start: index * SEGMENT_ANGLE - SEGMENT_ANGLE / 2,
+  end: (index + 1) * SEGMENT_ANGLE - SEGMENT_ANGLE / 2,
+});
+
+export const segmentIndexAt = (angle: number) =>
+  Math.floor(((angle + SEGMENT_ANGLE / 2) % 360) / SEGMENT_ANGLE) % SEGMENT_ORDER.length;
+
+export const scoreAtPolar = ({ distance, angle }: BoardPolar): DartScore => {
+  const {
+    INNER_BULL_RADIUS,
+    OUTER_BULL_RADIUS,
+    TRIPLE_RING_INNER_RADIUS,
+    TRIPLE_RING_OUTER_RADIUS,
+    DOUBLE_RING_INNER_RADIUS,
+    DOUBLE_RING_OUTER_RADIUS,
+  } = BOARD_GEOMETRY_MM;
+
+  if (distance <= INNER_BULL_RADIUS) {
+    return { segment: 25, multiplier: 2, points: 50, isBull: true };
+  }
+
+  if (distance <= OUTER_BULL_RADIUS) {
+    return { segment: 25, multiplier: 1, points: 25, isOuterBull: true };
+  }
+
+  // Outside the scoring area
+  if (distance > DOUBLE_RING_OUTER_RADIUS) {
+    return MISS;
+  }
+
+  const segment = SEGMENT_ORDER[segmentIndexAt(angle)];
+
+  let multiplier: 1 | 2 | 3 = 1;
+
+  if (distance >= TRIPLE_RING_INNER_RADIUS && distance <= TRIPLE_RING_OUTER_RADIUS) {
+    multiplier = 3;
+  } else if (distance >= DOUBLE_RING_INNER_RADIUS) {
+    multiplier = 2;
+  }
+
+  return { segment, multiplier, points: segment * multiplier };
+};
+
+// Score a landing spot, keeping the spot itself on the dart
+export const scoreAtMm = (pointMm: Point): DartScore => ({
+  ...scoreAtPolar(toPolar(pointMm)),
+  position: pointMm,
+});
+
+export const scoreAtPixel = (point: Point, projection: BoardProjection): DartScore =>
+  scoreAtMm(toBoardMm(point, projection));
+
+// Middle of the bed a dart is aimed at: the bull, or the middle of a segment's treble, double or big single
+export const targetCentre = ({ segment, multiplier }: Pick<DartScore, 'segment' | 'multiplier'>): Point => {
+  const {
+    TRIPLE_RING_INNER_RADIUS,
+    TRIPLE_RING_OUTER_RADIUS,
+    DOUBLE_RING_INNER_RADIUS,
+    DOUBLE_RING_OUTER_RADIUS,
+  } = BOARD_GEOMETRY_MM;
+
+  if (segment === 25) return { x: 0, y: 0 };
+
+  const distance = {
+    1: (TRIPLE_RING_OUTER_RADIUS + DOUBLE_RING_INNER_RADIUS) / 2,
+    2: (DOUBLE_RING_INNER_RADIUS + DOUBLE_RING_OUTER_RADIUS) / 2,
+    3: (TRIPLE_RING_INNER_RADIUS + TRIPLE_RING_OUTER_RADIUS) / 2,
+  }[multiplier];
+
+  return fromPolar({ distance, angle: SEGMENT_ORDER.indexOf(segment) * SEGMENT_ANGLE });
+};
@@ -0,0 +1,15 @@
+import { DartScore } from '../../types/game';
+
+// Scoresheet notation: T20, D16, 5, BULL, 25, and Σ85 for a typed-in turn total
+export const formatDart = (dart: Pick<DartScore, 'segment' | 'multiplier' | 'points' | 'isTotal'>) => {
+  if (dart.isTotal) return `Σ${dart.points}`;
+  
+  if (dart.segment === 25) {
+    return dart.multiplier === 2 ? 'BULL' : '25';
+  }
+  
+  if (dart.multiplier === 3) return `T${dart.segment}`;
+  if (dart.multiplier === 2) return `D${dart.segment}`;
+  
+  return `${dart.segment}`;
+};
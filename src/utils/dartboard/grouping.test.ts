@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { analyseGrouping, binHeatmap } from './grouping';
+
+describe('grouping', () => {
+  it('needs two darts for a group', () => {
+    expect(analyseGrouping([])).toBeUndefined();
+    expect(analyseGrouping([{ x: 3, y: 4 }])).toBeUndefined();
+  });
+
+  it('finds the mean point and its bias from the target', () => {
+    const stats = analyseGrouping([{ x: 18, y: -7 }, { x: 22, y: -3 }], { x: 0, y: -10 });
+
+    expect(stats.meanPoint).toEqual({ x: 20, y: -5 });
+    expect(stats.bias).toEqual({ x: 20, y: 5 });
+  });
+
+  it('lines the ellipse up with a spread along an axis', () => {
+    const wide = analyseGrouping([{ x: -10, y: 0 }, { x: 10, y: 0 }, { x: 0, y: -2 }, { x: 0, y: 2 }]);
+
+    expect(wide.spread.angle).toBeCloseTo(0);
+    expect(wide.spread.major).toBeCloseTo(Math.sqrt(200 / 3));
+    expect(wide.spread.minor).toBeCloseTo(Math.sqrt(8 / 3));
+    expect(wide.radialSpread).toBeCloseTo(Math.sqrt(208 / 3));
+
+    const tall = analyseGrouping([{ x: -2, y: 0 }, { x: 2, y: 0 }, { x: 0, y: -10 }, { x: 0, y: 10 }]);
+    expect(Math.abs(tall.spread.angle)).toBeCloseTo(90);
+  });
+
+  it('turns the ellipse with a diagonal spread', () => {
+    const stats = analyseGrouping([{ x: -10, y: -10 }, { x: 10, y: 10 }, { x: -1, y: 1 }, { x: 1, y: -1 }]);
+
+    expect(stats.spread.angle).toBeCloseTo(45);
+    expect(stats.spread.major).toBeGreaterThan(stats.spread.minor);
+  });
+});
+
+describe('heatmap', () => {
+  it('gives the cell hit full density and spreads half and a quarter to its neighbours', () => {
+    const cells = binHeatmap([{ x: 13, y: -11 }], 6);
+    const at = (x: number, y: number) => cells.find(cell => cell.x === x && cell.y === y)?.density;
+
+    expect(cells).toHaveLength(9);
+    expect(at(12, -12)).toBe(1);
+    expect(at(18, -12)).toBe(0.5);
+    expect(at(12, -6)).toBe(0.5);
+    expect(at(18, -6)).toBe(0.25);
+  });
+
+  it('scales density to the busiest cell', () => {
+    const cells = binHeatmap([{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 60, y: 0 }], 6);
+    const at = (x: number, y: number) => cells.find(cell => cell.x === x && cell.y === y)?.density;
+
+    expect(at(0, 0)).toBe(1);
+    expect(at(60, 0)).toBe(0.5);
+    expect(Math.max(...cells.map(cell => cell.density))).toBe(1);
+  });
+
+  it('leaves out cells beyond the board', () => {
+    const cells = binHeatmap([{ x: 174, y: 0 }], 6);
+
+    expect(cells.every(cell => cell.x <= 174)).toBe(true);
+    expect(cells).toHaveLength(6);
+  });
+});
@@ -0,0 +1,87 @@
+import { BOARD_GEOMETRY_MM, Point } from './boardGeometry';
+
+// How tightly a set of darts landed, and where the group sits against the target
+export type GroupingStats = {
+  count: number;
+  meanPoint: Point; // Mean point of impact, mm from the board centre (y down)
+  bias: Point; // Mean point of impact minus the target: +x is right, +y is low
+  spread: {
+    major: number; // Standard deviation along the widest axis, mm
+    minor: number;
+    angle: number; // Degrees clockwise from the x axis to the widest axis
+  };
+  radialSpread: number; // Root mean square distance from the mean point, mm
+};
+
+// Mean point, bias and the 1σ dispersion ellipse of a group. Needs two darts to say anything.
+export const analyseGrouping = (points: Point[], target: Point = { x: 0, y: 0 }): GroupingStats | undefined => {
+  const count = points.length;
+  if (count < 2) return undefined;
+
+  const meanPoint = {
+    x: points.reduce((sum, point) => sum + point.x, 0) / count,
+    y: points.reduce((sum, point) => sum + point.y, 0) / count,
+  };
+
+  // Sample covariance of the landing spots
+  let xx = 0;
+  let yy = 0;
+  let xy = 0;
+  points.forEach(({ x, y }) => {
+    const dx = x - meanPoint.x;
+    const dy = y - meanPoint.y;
+    xx += dx * dx;
+    yy += dy * dy;
+    xy += dx * dy;
+  });
+  xx /= count - 1;
+  yy /= count - 1;
+  xy /= count - 1;
+
+  // Eigenvalues of the covariance give the ellipse axes
+  const middle = (xx + yy) / 2;
+  const offset = Math.sqrt(((xx - yy) / 2) ** 2 + xy * xy);
+
+  return {
+    count,
+    meanPoint,
+    bias: { x: meanPoint.x - target.x, y: meanPoint.y - target.y },
+    spread: {
+      major: Math.sqrt(middle + offset),
+      minor: Math.sqrt(Math.max(0, middle - offset)),
+      angle: (Math.atan2(2 * xy, xx - yy) / 2) * 180 / Math.PI,
+    },
+    radialSpread: Math.sqrt(xx + yy),
+  };
+};
+
+export type HeatCell = Point & { density: number }; // Cell centre in mm, density 0..1
+
+// Landing density over square cells, smoothed over neighbouring cells so sparse data still reads as a heatmap
+export const binHeatmap = (points: Point[], cellSize = 6): HeatCell[] => {
+  const reach = Math.ceil(BOARD_GEOMETRY_MM.DOUBLE_RING_OUTER_RADIUS / cellSize);
+  const counts = new Map<string, number>();
+
+  points.forEach(({ x, y }) => {
+    const column = Math.round(x / cellSize);
+    const row = Math.round(y / cellSize);
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        if (Math.abs(column + dx) > reach || Math.abs(row + dy) > reach) continue;
+
+        // The cell hit counts fully, its neighbours by half or a quarter
+        const weight = 1 / 2 ** (Math.abs(dx) + Math.abs(dy));
+        const key = `${column + dx}:${row + dy}`;
+        counts.set(key, (counts.get(key) ?? 0) + weight);
+      }
+    }
+  });
+
+  const highest = Math.max(0, ...counts.values());
+
+  return [...counts].map(([key, count]) => {
+    const [column, row] = key.split(':').map(Number);
+    return { x: column * cellSize, y: row * cellSize, density: count / highest };
+  });
+};
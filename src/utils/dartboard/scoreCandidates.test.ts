@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { BOARD_GEOMETRY_MM, Point, fromPolar, targetCentre } from './boardGeometry';
+import { formatDart } from './dartLabel';
+import { rankScoreCandidates } from './scoreCandidates';
+import { createDartScore } from './scoreCalculator';
+
+// The tip spread the camera gives a cleanly seen dart
+const SPREAD_MM = 1.5;
+
+const ranked = (tipMm: Point) =>
+  rankScoreCandidates(tipMm, SPREAD_MM).map(({ dart, probability }) => ({ label: formatDart(dart), probability }));
+
+// The two likeliest beds, each close to an even chance
+const expectSplit = (tipMm: Point, labels: string[]) => {
+  const [first, second] = ranked(tipMm);
+
+  expect([first.label, second.label].sort()).toEqual([...labels].sort());
+  expect(first.probability).toBeGreaterThan(0.4);
+  expect(second.probability).toBeGreaterThan(0.4);
+};
+
+describe('score candidates', () => {
+  it('is near certain of a tip in the middle of a bed', () => {
+    for (const target of [createDartScore(20, 3), createDartScore(20, 1), createDartScore(6, 2)]) {
+      const [best] = ranked(targetCentre(target));
+      expect(best.label).toBe(formatDart(target));
+      expect(best.probability).toBeGreaterThan(0.99);
+    }
+  });
+
+  it('splits a tip on a wire between the beds either side', () => {
+    expectSplit(fromPolar({ distance: 130, angle: 9 }), ['20', '1']);
+    expectSplit(fromPolar({ distance: BOARD_GEOMETRY_MM.TRIPLE_RING_OUTER_RADIUS, angle: 0 }), ['T20', '20']);
+    expectSplit(fromPolar({ distance: BOARD_GEOMETRY_MM.DOUBLE_RING_OUTER_RADIUS, angle: 0 }), ['D20', '0']);
+  });
+
+  it('splits across the bull and outer bull wires', () => {
+    expect(ranked({ x: 0, y: 0 })[0]).toEqual({ label: 'BULL', probability: 1 });
+    expectSplit(fromPolar({ distance: BOARD_GEOMETRY_MM.INNER_BULL_RADIUS, angle: 0 }), ['BULL', '25']);
+    expectSplit(fromPolar({ distance: BOARD_GEOMETRY_MM.OUTER_BULL_RADIUS, angle: 0 }), ['25', '20']);
+  });
+
+  it('adds up to one, with every candidate keeping the tip as its position', () => {
+    const tip = fromPolar({ distance: 130, angle: 9 });
+    const candidates = rankScoreCandidates(tip, SPREAD_MM);
+
+    expect(candidates.reduce((sum, { probability }) => sum + probability, 0)).toBeCloseTo(1);
+    candidates.forEach(({ dart }) => expect(dart.position).toEqual(tip));
+  });
+});
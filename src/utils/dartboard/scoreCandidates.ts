@@ -0,0 +1,34 @@
+import { ScoreCandidate } from '../../types/game';
+import { Point, scoreAtMm } from './boardGeometry';
+
+// The tip's spread is sampled on a grid this many steps either side of it, out to this many standard deviations
+const SAMPLE_STEPS = 6;
+const SAMPLE_REACH = 2.5;
+
+// The beds a dart may be in when its tip was read at `tipMm`, give or take `spreadMm` (one standard deviation).
+// Spots around the tip are scored and weighted by how likely the tip is to be there, so a tip in the middle of a
+// bed is near certain and one on a wire splits between the beds either side. Every candidate keeps the tip as
+// its position. Most likely first.
+export const rankScoreCandidates = (tipMm: Point, spreadMm: number): ScoreCandidate[] => {
+  const candidates = new Map<string, ScoreCandidate>();
+  let totalWeight = 0;
+
+  for (let i = -SAMPLE_STEPS; i <= SAMPLE_STEPS; i++) {
+    for (let j = -SAMPLE_STEPS; j <= SAMPLE_STEPS; j++) {
+      if (i * i + j * j > SAMPLE_STEPS * SAMPLE_STEPS) continue;
+
+      const offset = { x: (i / SAMPLE_STEPS) * SAMPLE_REACH, y: (j / SAMPLE_STEPS) * SAMPLE_REACH }; // In deviations
+      const weight = Math.exp(-(offset.x * offset.x + offset.y * offset.y) / 2);
+      const dart = scoreAtMm({ x: tipMm.x + offset.x * spreadMm, y: tipMm.y + offset.y * spreadMm });
+
+      const key = `${dart.segment}x${dart.multiplier}`;
+      const candidate = candidates.get(key) ?? { dart: { ...dart, position: tipMm }, probability: 0 };
+      candidates.set(key, { ...candidate, probability: candidate.probability + weight });
+      totalWeight += weight;
+    }
+  }
+
+  return [...candidates.values()]
+    .map(candidate => ({ ...candidate, probability: candidate.probability / totalWeight }))
+    .sort((a, b) => b.probability - a.probability);
+};
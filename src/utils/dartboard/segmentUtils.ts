@@ -1,4 +1,5 @@
 import { DARTBOARD_CONFIG, DARTBOARD_NUMBERS } from './dartboardConfig';
+import { segmentAngles } from './boardGeometry';
 
 export const generateSegments = () => {
   const segments = [];
@@ -11,8 +12,7 @@ export const generateSegments = () => {
     TRIPLE_RING_OUTER_RADIUS,
     OUTER_BULL_RADIUS,
     INNER_BULL_RADIUS,
-    WIRE_WIDTH,
-    ROTATION_OFFSET 
+    WIRE_WIDTH
   } = DARTBOARD_CONFIG;
 
   // Background circle
@@ -28,9 +28,10 @@ export const generateSegments = () => {
     }
   });
 
-  for (let i = 0; i < 20; i++) {
-    const startAngle = ((i * 18) + ROTATION_OFFSET) * Math.PI / 180;
-    const endAngle = (((i + 1) * 18) + ROTATION_OFFSET) * Math.PI / 180;
+  for (let i = 0; i < DARTBOARD_NUMBERS.length; i++) {
+    const { start, end } = segmentAngles(i);
+    const startAngle = start * Math.PI / 180;
+    const endAngle = end * Math.PI / 180;
     
     const number = DARTBOARD_NUMBERS[i];
     const isEven = i % 2 === 0;
@@ -0,0 +1,488 @@
+import cv from '@techstark/opencv-js';
+import {
+  BOARD_GEOMETRY_MM,
+  Point,
+  fromPolar,
+  toBoardMm,
+  toPixels
+} from '../utils/dartboard/boardGeometry';
+import { rankScoreCandidates } from '../utils/dartboard/scoreCandidates';
+import {
+  CALIBRATION_POINTS_REQUIRED,
+  CALIBRATION_TARGET_SIZE,
+  Calibration,
+  DartDetection,
+  MissDetection,
+  Size,
+  VisionEvent,
+  WARPED_PROJECTION
+} from './protocol';
+
+// Where the calibration points land in the warped image, in the order they are picked:
+// the outer edge of D20 (top), D6 (right), D19 (bottom) and D11 (left)
+const WORLD_POINTS_TARGET = [0, 90, 180, 270].map(angle =>
+  toPixels(fromPolar({ distance: BOARD_GEOMETRY_MM.DOUBLE_RING_OUTER_RADIUS, angle }), WARPED_PROJECTION)
+);
+
+// Mean grey-level change between frames below which the board counts as still
+const MOTION_THRESHOLD = 2.5;
+
+// After a detection the board is held still for this long, so the thrower's arm isn't taken for the next dart
+const DETECTION_COOLDOWN_MS = 1000;
+
+// Per-pixel grey-level change that counts as part of a dart
+const DIFF_THRESHOLD = 15;
+
+// Contour area (warped px) that a single dart leaves in the frame difference
+const DART_MIN_AREA = 500;
+const DART_MAX_AREA = 2000;
+
+// The smallest part of a dart that counts when the rest of it is behind a dart already found
+const PARTIAL_DART_MIN_AREA = 200;
+
+// How far (warped px) a found dart's mask reaches past its outline, so its edges don't show as new changes
+const DART_MASK_MARGIN = 4;
+
+const MAX_DARTS_PER_TURN = 3;
+
+// How far a cleanly seen dart's tip may be from where it's read, in mm (one standard deviation). Less dart-like
+// shapes are read less surely, down to MIN_DART_QUALITY.
+const TIP_SPREAD_MM = 1.5;
+const MIN_DART_QUALITY = 0.25;
+
+// Length over width of a dart's outline, seen side-on
+const DART_ELONGATION = 4;
+
+// The far end of an outline is clearly the tip once the other end is no further than this share of the distance
+// out from the centroid; a dart's flight end sits nearer its centroid than its point does
+const TIP_CLEAR_RATIO = 0.7;
+
+// How sure a tip is when the rest of its dart is hidden behind another
+const HIDDEN_DART_QUALITY = 0.7;
+
+// A burst of motion no longer than this that leaves no dart behind was a throw that bounced out
+const THROW_BURST_MAX_MS = 1500;
+
+// How sure a bounce-out is, going only on a throw that left nothing behind
+const BOUNCE_OUT_CONFIDENCE = 0.5;
+
+// Share of the found darts' pixels that must look like the clean board again for them to count as pulled out
+const TAKEOUT_CLEARED_SHARE = 0.8;
+
+// Overlay colours: every change, the dart's outline, its centroid and its tip
+const colour = (red: number, green: number, blue: number) => new cv.Scalar(red, green, blue, 255);
+
+type Change = { area: number; outline: Point[] };
+type FoundDart = { outline: Point[]; centroid: Point; tip: Point; quality: number; order: number };
+
+const isDartSized = (area: number) => area > DART_MIN_AREA && area < DART_MAX_AREA;
+
+const outlineToMat = (outline: Point[]) =>
+  cv.matFromArray(outline.length, 1, cv.CV_32SC2, outline.flatMap(point => [point.x, point.y]));
+
+const matToOutline = (contour: cv.Mat): Point[] =>
+  Array.from({ length: contour.rows }, (_, i) => ({ x: contour.data32S[i * 2], y: contour.data32S[i * 2 + 1] }));
+
+const drawOutlines = (mat: cv.Mat, outlines: Point[][], color: cv.Scalar, thickness: number) => {
+  const contours = new cv.MatVector();
+  outlines.forEach(outline => {
+    const contour = outlineToMat(outline);
+    contours.push_back(contour);
+    contour.delete();
+  });
+
+  for (let i = 0; i < contours.size(); i++) cv.drawContours(mat, contours, i, color, thickness);
+  contours.delete();
+};
+
+// The pixels that differ between two frames, as a mask
+const diffMask = (a: cv.Mat, b: cv.Mat) => {
+  const diff = new cv.Mat();
+  const gray = new cv.Mat();
+  const thresh = new cv.Mat();
+
+  cv.absdiff(a, b, diff);
+  cv.cvtColor(diff, gray, cv.COLOR_RGBA2GRAY);
+  cv.threshold(gray, thresh, DIFF_THRESHOLD, 255, cv.THRESH_BINARY);
+  diff.delete();
+  gray.delete();
+
+  return thresh;
+};
+
+// The shapes that differ between two frames, leaving out anything under `exclude`
+const findChanges = (a: cv.Mat, b: cv.Mat, exclude?: cv.Mat): Change[] => {
+  const thresh = diffMask(a, b);
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+
+  try {
+    if (exclude) thresh.setTo(new cv.Scalar(0), exclude);
+    cv.findContours(thresh, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
+
+    return Array.from({ length: contours.size() }, (_, i) => {
+      const contour = contours.get(i);
+      const change = { area: cv.contourArea(contour), outline: matToOutline(contour) };
+      contour.delete();
+      return change;
+    });
+  } finally {
+    thresh.delete();
+    contours.delete();
+    hierarchy.delete();
+  }
+};
+
+const centroidOf = (outline: Point[]): Point | null => {
+  const contour = outlineToMat(outline);
+  const moments = cv.moments(contour, false);
+  contour.delete();
+  return moments.m00 === 0 ? null : { x: moments.m10 / moments.m00, y: moments.m01 / moments.m00 };
+};
+
+// The dart's tip: the outline point furthest from its centroid
+const findDartTip = (outline: Point[], centroid: Point): Point | null => {
+  let tip: Point | null = null;
+  let maxDistanceSq = -1;
+
+  for (const point of outline) {
+    const distanceSq = (point.x - centroid.x) ** 2 + (point.y - centroid.y) ** 2;
+
+    if (distanceSq > maxDistanceSq) {
+      maxDistanceSq = distanceSq;
+      tip = point;
+    }
+  }
+
+  return tip;
+};
+
+// How much a shape looks like a cleanly seen dart, 0..1: dart-sized, long and thin, and with one end clearly
+// further from its centroid than the other so the tip can't be mistaken
+const dartQuality = (outline: Point[], area: number, centroid: Point, tip: Point) => {
+  const contour = outlineToMat(outline);
+  const { size } = cv.minAreaRect(contour);
+  contour.delete();
+
+  const length = Math.max(size.width, size.height);
+  const width = Math.max(1, Math.min(size.width, size.height));
+
+  const toTip = { x: tip.x - centroid.x, y: tip.y - centroid.y };
+  const tipDistance = Math.hypot(toTip.x, toTip.y);
+  const otherEndDistance = Math.max(
+    0,
+    ...outline
+      .filter(point => (point.x - centroid.x) * toTip.x + (point.y - centroid.y) * toTip.y < 0)
+      .map(point => Math.hypot(point.x - centroid.x, point.y - centroid.y))
+  );
+
+  const sizeFit = Math.min(1, area / DART_MIN_AREA); // Only a partly hidden dart is smaller
+  const shapeFit = Math.min(1, length / width / DART_ELONGATION);
+  const tipFit = tipDistance
+    ? Math.min(1, Math.max(0, (1 - otherEndDistance / tipDistance) / (1 - TIP_CLEAR_RATIO)))
+    : 0;
+
+  return sizeFit * shapeFit * tipFit;
+};
+
+const toImageData = (mat: cv.Mat) => new ImageData(new Uint8ClampedArray(mat.data), mat.cols, mat.rows);
+
+// Work out the perspective that maps picked camera points onto the calibrated view
+export const computeCalibration = (imagePoints: Point[], sourceDimensions: Size): Calibration | undefined => {
+  if (imagePoints.length !== CALIBRATION_POINTS_REQUIRED) return undefined;
+
+  const source = cv.matFromArray(CALIBRATION_POINTS_REQUIRED, 1, cv.CV_32FC2, imagePoints.flatMap(p => [p.x, p.y]));
+  const target = cv.matFromArray(
+    CALIBRATION_POINTS_REQUIRED,
+    1,
+    cv.CV_32FC2,
+    WORLD_POINTS_TARGET.flatMap(p => [p.x, p.y])
+  );
+  let homography: cv.Mat | undefined;
+
+  try {
+    homography = cv.findHomography(source, target, cv.RANSAC);
+    if (homography.rows !== 3 || homography.cols !== 3) return undefined;
+
+    return {
+      imagePoints,
+      worldPoints: WORLD_POINTS_TARGET,
+      homographyMatrix: Array.from(homography.data64F),
+      sourceDimensions,
+    };
+  } finally {
+    source.delete();
+    target.delete();
+    homography?.delete();
+  }
+};
+
+// The vision state machine. Frames go in one at a time; motion, settling, darts and takeouts come out through `emit`.
+// Each frame gives back the image to show: the camera's view, or once calibrated the warped board with this turn's
+// darts drawn over it.
+//
+// Darts are found against a clean board, taken the first time the board is seen still and again after each takeout.
+// Each dart found is masked out of later comparisons, so a dart that lands behind an earlier one's flight or shaft
+// still shows as whatever part of it is new. The darts count as pulled out once the board where they stood looks
+// clean again.
+export const createVisionPipeline = (emit: (event: VisionEvent) => void) => {
+  let calibration: Calibration | undefined;
+  let calibrating = false;
+
+  let previous: cv.Mat | undefined; // The last warped frame
+  let cleanBoard: cv.Mat | undefined; // The board with no darts in it
+  let dartMask: cv.Mat | undefined; // Where this turn's darts are, grown by DART_MASK_MARGIN
+  let found: FoundDart[] = []; // This turn's darts in the board, in the order they landed
+  let thrown = 0; // This turn's darts, counting those that missed
+  let strayChanges: Point[][] = []; // Shapes the last settle left that weren't darts
+  let still = false;
+  let motionStartedAt = -Infinity;
+  let lastDetectionAt = -Infinity;
+  let overlay: cv.Mat | undefined; // This turn's darts and the last settle's other changes, on black
+
+  const replace = (mat: cv.Mat | undefined, next: cv.Mat | undefined) => {
+    mat?.delete();
+    return next;
+  };
+
+  const resetMotion = () => {
+    previous = replace(previous, undefined);
+    cleanBoard = replace(cleanBoard, undefined);
+    dartMask = replace(dartMask, undefined);
+    overlay = replace(overlay, undefined);
+    found = [];
+    thrown = 0;
+    strayChanges = [];
+    still = false;
+  };
+
+  const drawOverlay = (board: cv.Mat) => {
+    const drawn = new cv.Mat(board.rows, board.cols, cv.CV_8UC4, new cv.Scalar(0, 0, 0, 0));
+    overlay = replace(overlay, drawn);
+
+    drawOutlines(drawn, strayChanges, colour(255, 255, 0), 1);
+    drawOutlines(drawn, found.map(dart => dart.outline), colour(255, 0, 255), 2);
+    found.forEach(({ centroid, tip, order }) => {
+      cv.circle(drawn, new cv.Point(centroid.x, centroid.y), 5, colour(0, 255, 0), -1);
+      cv.circle(drawn, new cv.Point(tip.x, tip.y), 5, colour(0, 255, 255), -1);
+      cv.putText(drawn, `${order}`, new cv.Point(tip.x + 8, tip.y - 8), cv.FONT_HERSHEY_SIMPLEX, 0.6, colour(0, 255, 255), 2);
+    });
+  };
+
+  // A new turn starts from the board as it now stands
+  const startTurn = (board: cv.Mat) => {
+    cleanBoard = replace(cleanBoard, board.clone());
+    dartMask = replace(dartMask, new cv.Mat(board.rows, board.cols, cv.CV_8UC1, new cv.Scalar(0)));
+    found = [];
+    thrown = 0;
+    strayChanges = [];
+    drawOverlay(board);
+  };
+
+  // Shapes that differ from the clean board and aren't darts already found. One that borders a found dart may be
+  // partly hidden behind it, so is allowed to be smaller.
+  const findNewDarts = (after: cv.Mat) => {
+    const changes = findChanges(after, cleanBoard, dartMask);
+    const nearFound = new cv.Mat();
+    const kernel = cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(3, 3));
+
+    try {
+      cv.dilate(dartMask, nearFound, kernel, new cv.Point(-1, -1), 2);
+      const isNearFound = ({ x, y }: Point) => nearFound.ucharAt(y, x) > 0;
+      const bordersFound = (outline: Point[]) => outline.some(isNearFound);
+
+      const darts = changes.filter(({ area, outline }) =>
+        isDartSized(area) || (area > PARTIAL_DART_MIN_AREA && area < DART_MAX_AREA && bordersFound(outline))
+      );
+      strayChanges = changes.filter(change => !darts.includes(change)).map(change => change.outline);
+
+      return darts
+        .sort((a, b) => b.area - a.area)
+        .flatMap(({ outline, area }): Omit<FoundDart, 'order'>[] => {
+          // Where a dart meets the mask is only where it goes out of sight, never its tip
+          const visible = outline.filter(point => !isNearFound(point));
+          const hidden = visible.length < outline.length;
+          const centroid = centroidOf(outline);
+          const tip = centroid && findDartTip(visible.length ? visible : outline, centroid);
+          if (!tip) return [];
+
+          const quality = dartQuality(visible.length ? visible : outline, area, centroid, tip);
+          return [{ outline, centroid, tip, quality: hidden ? quality * HIDDEN_DART_QUALITY : quality }];
+        });
+    } finally {
+      nearFound.delete();
+      kernel.delete();
+    }
+  };
+
+  // Whether the board where this turn's darts stood matches the clean board again
+  const dartsPulled = (after: cv.Mat) => {
+    if (!found.length) return false;
+
+    const changed = diffMask(after, cleanBoard);
+    const darts = new cv.Mat(after.rows, after.cols, cv.CV_8UC1, new cv.Scalar(0));
+    const stillChanged = new cv.Mat();
+
+    try {
+      drawOutlines(darts, found.map(dart => dart.outline), new cv.Scalar(255), -1);
+      cv.bitwise_and(changed, darts, stillChanged);
+
+      const dartArea = cv.countNonZero(darts);
+      return dartArea > 0 && cv.countNonZero(stillChanged) / dartArea <= 1 - TAKEOUT_CLEARED_SHARE;
+    } finally {
+      changed.delete();
+      darts.delete();
+      stillChanged.delete();
+    }
+  };
+
+  // Compare the settled board with the clean one: each new dart-sized shape is the turn's next dart. A quick
+  // burst of motion that leaves none was a throw that bounced out, or flew past the camera's view - or a hand
+  // passing. It only counts once the turn is under way; before the turn's first dart, walking off after a takeout
+  // included, it's reported unconfirmed and doesn't use up a dart.
+  const detect = (after: cv.Mat, at: number, burstMs: number) => {
+    if (dartsPulled(after)) {
+      emit({ type: 'takeout', at, darts: found.length });
+      startTurn(after);
+      return;
+    }
+
+    if (thrown >= MAX_DARTS_PER_TURN) return;
+
+    const thrownBefore = thrown;
+    const darts = findNewDarts(after).slice(0, MAX_DARTS_PER_TURN - thrown);
+
+    darts.forEach(dart => {
+      const order = ++thrown;
+      found.push({ ...dart, order });
+      drawOutlines(dartMask, [dart.outline], new cv.Scalar(255), -1);
+      drawOutlines(dartMask, [dart.outline], new cv.Scalar(255), DART_MASK_MARGIN * 2);
+
+      // The shakier the outline, the further the tip may really be from where it was read
+      const spreadMm = TIP_SPREAD_MM / Math.max(dart.quality, MIN_DART_QUALITY);
+      const candidates = rankScoreCandidates(toBoardMm(dart.tip, WARPED_PROJECTION), spreadMm);
+      const [{ dart: score, probability: confidence }] = candidates;
+
+      if (score.points) {
+        const detection: DartDetection = { dart: score, confidence, candidates, tip: dart.tip, order };
+        emit({ type: 'dartDetected', detection, at });
+      } else {
+        const miss: MissDetection = { reason: 'outsideBoard', confidence, candidates, tip: dart.tip, order };
+        emit({ type: 'miss', miss, at });
+      }
+    });
+
+    if (!darts.length && burstMs <= THROW_BURST_MAX_MS) {
+      const miss: MissDetection = thrown > 0
+        ? { reason: 'bounceOut', confidence: BOUNCE_OUT_CONFIDENCE, order: ++thrown }
+        : { reason: 'bounceOut', confidence: 0, order: thrown + 1, unconfirmed: true };
+      emit({ type: 'miss', miss, at });
+    }
+
+    if (thrown > thrownBefore) lastDetectionAt = at;
+
+    // With every dart thrown and none of them in the board, there's nothing to pull out before the next turn
+    if (thrown >= MAX_DARTS_PER_TURN && !found.length) {
+      startTurn(after);
+      return;
+    }
+
+    drawOverlay(after);
+  };
+
+  // Follow the board between still and moving; a throw is looked for each time it settles
+  const trackMotion = (warped: cv.Mat, at: number) => {
+    // Held still straight after a detection
+    const coolingDown = at - lastDetectionAt <= DETECTION_COOLDOWN_MS;
+    let nowStill = coolingDown || still;
+
+    if (!coolingDown && previous) {
+      const diff = new cv.Mat();
+      const gray = new cv.Mat();
+      cv.absdiff(warped, previous, diff);
+      cv.cvtColor(diff, gray, cv.COLOR_RGBA2GRAY);
+      nowStill = cv.mean(gray)[0] < MOTION_THRESHOLD;
+      diff.delete();
+      gray.delete();
+    }
+
+    if (coolingDown) {
+      still = true;
+    } else if (nowStill && !still) {
+      still = true;
+      emit({ type: 'settle', at });
+
+      // The first time the board is seen still it becomes the clean reference
+      if (cleanBoard) {
+        detect(warped, at, at - motionStartedAt);
+      } else {
+        startTurn(warped);
+      }
+    } else if (!nowStill && still) {
+      still = false;
+      motionStartedAt = at;
+      emit({ type: 'motionStart', at });
+
+      if (!cleanBoard && previous) startTurn(previous);
+    }
+
+    previous = replace(previous, warped.clone());
+  };
+
+  // Take a camera frame and give back the image to show for it
+  const processFrame = (image: ImageData, at: number): ImageData => {
+    const { sourceDimensions } = calibration ?? {};
+    if (sourceDimensions && (sourceDimensions.width !== image.width || sourceDimensions.height !== image.height)) {
+      calibration = undefined;
+      resetMotion();
+      emit({ type: 'calibrationLost', reason: 'Camera dimensions changed. Please recalibrate.' });
+    }
+
+    if (calibrating || !calibration?.homographyMatrix) {
+      if (!calibrating) resetMotion();
+      return image;
+    }
+
+    const source = cv.matFromImageData(image);
+    const homography = cv.matFromArray(3, 3, cv.CV_64F, calibration.homographyMatrix);
+    const warped = new cv.Mat();
+    const view = new cv.Mat();
+
+    try {
+      const size = new cv.Size(CALIBRATION_TARGET_SIZE, CALIBRATION_TARGET_SIZE);
+      cv.warpPerspective(source, warped, homography, size, cv.INTER_LINEAR, cv.BORDER_CONSTANT, new cv.Scalar());
+
+      trackMotion(warped, at);
+
+      if (overlay) {
+        cv.add(warped, overlay, view);
+      } else {
+        warped.copyTo(view);
+      }
+
+      return toImageData(view);
+    } finally {
+      source.delete();
+      homography.delete();
+      warped.delete();
+      view.delete();
+    }
+  };
+
+  return {
+    processFrame,
+
+    setCalibration: (next: Calibration | undefined) => {
+      calibration = next;
+      resetMotion();
+    },
+
+    setCalibrating: (next: boolean) => {
+      calibrating = next;
+    },
+
+    dispose: resetMotion,
+  };
+};
+
+export type VisionPipeline = ReturnType<typeof createVisionPipeline>;
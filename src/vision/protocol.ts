@@ -0,0 +1,60 @@
+import { DartScore, MissReason, ScoreCandidate } from '../types/game';
+import { Point, createBoardProjection } from '../utils/dartboard/boardGeometry';
+
+// Messages between the app and the vision worker. Nothing here loads OpenCV, so the app can share it.
+
+// The calibrated view is warped onto a square this many pixels across
+export const CALIBRATION_TARGET_SIZE = 500;
+export const CALIBRATION_POINTS_REQUIRED = 4;
+
+// The warped image maps the outer edge of the double ring 10px inside its border
+export const WARPED_PROJECTION = createBoardProjection(
+  { x: CALIBRATION_TARGET_SIZE / 2, y: CALIBRATION_TARGET_SIZE / 2 },
+  CALIBRATION_TARGET_SIZE / 2 - 10
+);
+
+export type Size = { width: number; height: number };
+
+// Where four known board points sit in the camera frame, and the perspective that maps them onto the calibrated view
+export type Calibration = {
+  imagePoints: Point[];
+  worldPoints: Point[]; // The same points on the calibrated view
+  homographyMatrix: number[] | null; // 3x3, row by row
+  sourceDimensions: Size; // Camera frame size when calibrated
+};
+
+export type DartDetection = {
+  dart: DartScore;
+  confidence: number; // How likely `dart` is, from how near the tip is to a wire and how cleanly the dart was seen
+  candidates: ScoreCandidate[]; // Every score the dart may have, most likely (`dart`) first
+  tip: Point; // Tip position in the warped (calibrated) image
+  order: number; // Which dart of the turn, from 1
+};
+
+// A dart of the turn that scored nothing
+export type MissDetection = {
+  reason: MissReason;
+  confidence: number;
+  candidates?: ScoreCandidate[]; // For a dart seen outside the scoring area: the miss, and any bed it may be in
+  tip?: Point; // Where it stuck outside the scoring area, in the warped image
+  order: number;
+  unconfirmed?: boolean; // A bounce-out the camera can't tell from other motion; not counted as one of the turn's darts
+};
+
+export type VisionRequest =
+  | { type: 'frame'; frame: ImageBitmap | ArrayBuffer } // A decoded frame, or a JPEG as the camera sends it
+  | { type: 'calibration'; calibration?: Calibration } // Use a saved calibration, or none
+  | { type: 'calibrating'; calibrating: boolean } // Show the camera's own view while points are picked
+  | { type: 'calibrate'; imagePoints: Point[] }; // Work out a calibration from picked points
+
+export type VisionEvent =
+  | { type: 'ready' } // OpenCV has loaded
+  | { type: 'frameDone'; preview?: ImageBitmap; sourceSize?: Size } // One per frame sent, ready for the next
+  | { type: 'motionStart'; at: number }
+  | { type: 'settle'; at: number } // The board is still again after moving
+  | { type: 'dartDetected'; detection: DartDetection; at: number }
+  | { type: 'miss'; miss: MissDetection; at: number }
+  | { type: 'takeout'; at: number; darts: number } // The turn's darts were pulled out, leaving the board clean
+  | { type: 'calibrated'; calibration: Calibration }
+  | { type: 'calibrationLost'; reason: string } // The camera changed since calibrating
+  | { type: 'error'; message: string };
@@ -0,0 +1,106 @@
+import cv from '@techstark/opencv-js';
+import { computeCalibration, createVisionPipeline } from './pipeline';
+import { Calibration, Size, VisionEvent, VisionRequest } from './protocol';
+import { Point } from '../utils/dartboard/boardGeometry';
+
+// Runs the vision pipeline off the main thread. Start it with
+// `new Worker(new URL('./visionWorker.ts', import.meta.url), { type: 'module' })`.
+
+const scope = self as unknown as Worker;
+
+const post = (event: VisionEvent, transfer: Transferable[] = []) => scope.postMessage(event, transfer);
+
+const pipeline = createVisionPipeline(event => post(event));
+
+// Frames are decoded on one canvas and the view drawn on another
+let decodeCanvas: OffscreenCanvas | undefined;
+let viewCanvas: OffscreenCanvas | undefined;
+let lastSourceSize: Size | undefined;
+
+// opencv.js finishes loading its WebAssembly after the import
+const cvReady = new Promise<void>(resolve => {
+  const check = () => (cv.getBuildInformation ? resolve() : setTimeout(check, 100));
+  check();
+});
+
+const sizedCanvas = (canvas: OffscreenCanvas | undefined, { width, height }: Size) => {
+  if (!canvas) return new OffscreenCanvas(width, height);
+
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return canvas;
+};
+
+// JPEG bytes or a bitmap, as pixels
+const decodeFrame = async (frame: ImageBitmap | ArrayBuffer) => {
+  const bitmap = frame instanceof ArrayBuffer
+    ? await createImageBitmap(new Blob([frame], { type: 'image/jpeg' }))
+    : frame;
+
+  decodeCanvas = sizedCanvas(decodeCanvas, bitmap);
+  const context = decodeCanvas.getContext('2d', { willReadFrequently: true });
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  return context.getImageData(0, 0, decodeCanvas.width, decodeCanvas.height);
+};
+
+const toBitmap = (image: ImageData) => {
+  viewCanvas = sizedCanvas(viewCanvas, image);
+  viewCanvas.getContext('2d').putImageData(image, 0, 0);
+  return viewCanvas.transferToImageBitmap();
+};
+
+const handleFrame = async (frame: ImageBitmap | ArrayBuffer) => {
+  try {
+    const image = await decodeFrame(frame);
+    lastSourceSize = { width: image.width, height: image.height };
+
+    const preview = toBitmap(pipeline.processFrame(image, performance.now()));
+    post({ type: 'frameDone', preview, sourceSize: lastSourceSize }, [preview]);
+  } catch (error) {
+    console.error('Vision worker failed on a frame:', error);
+    post({ type: 'error', message: 'Error during image processing.' });
+    post({ type: 'frameDone' });
+  }
+};
+
+const calibrate = (imagePoints: Point[]) => {
+  let calibration: Calibration | undefined;
+
+  try {
+    calibration = lastSourceSize && computeCalibration(imagePoints, lastSourceSize);
+  } catch (error) {
+    console.error('OpenCV homography error:', error);
+  }
+
+  if (!calibration) {
+    post({ type: 'error', message: 'Calibration failed. Could not calculate perspective. Try clicking points again.' });
+    return;
+  }
+
+  pipeline.setCalibration(calibration);
+  post({ type: 'calibrated', calibration });
+};
+
+const handleRequest = (request: VisionRequest) => {
+  switch (request.type) {
+    case 'frame':
+      return handleFrame(request.frame);
+    case 'calibration':
+      return pipeline.setCalibration(request.calibration);
+    case 'calibrating':
+      return pipeline.setCalibrating(request.calibrating);
+    case 'calibrate':
+      return calibrate(request.imagePoints);
+  }
+};
+
+scope.onmessage = async ({ data }: MessageEvent<VisionRequest>) => {
+  await cvReady;
+  handleRequest(data);
+};
+
+cvReady.then(() => post({ type: 'ready' }));